@@ -0,0 +1,125 @@
+import { init } from "$lib/init.js";
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { render } from "@testing-library/svelte";
+import Breadcrumbs from "./Breadcrumbs.svelte";
+import { location } from "$lib/kernel/Location.js";
+import { calculateHref } from "$lib/kernel/calculateHref.js";
+import { RouterEngine } from "$lib/kernel/RouterEngine.svelte.js";
+import { getRouterContextKey } from "$lib/Router/Router.svelte";
+import { resolveHashValue } from "$lib/kernel/resolveHashValue.js";
+import { buildUniverseUrl, createRouterTestSetup, ROUTING_UNIVERSES, setupBrowserMocks, type RoutingUniverse } from "$test/test-utils.js";
+import { createRawSnippet } from "svelte";
+import type { BreadcrumbItem, ParameterValue } from "$lib/types.js";
+
+function breadcrumbsTests(ru: RoutingUniverse) {
+    let browserMocks: ReturnType<typeof setupBrowserMocks>;
+    let setup: ReturnType<typeof createRouterTestSetup>;
+
+    beforeEach(() => {
+        browserMocks = setupBrowserMocks(buildUniverseUrl(ru, '/users/42'), location);
+        location.url.href = browserMocks.window.location.href;
+        setup = createRouterTestSetup(ru.hash);
+        setup.init();
+    });
+
+    afterAll(() => {
+        setup.dispose();
+        browserMocks.cleanup();
+    });
+
+    function createChildRouter() {
+        const { router: parent } = setup;
+        parent.routes['users'] = { pattern: '/users/*', meta: { breadcrumb: 'Users' } };
+        const child = new RouterEngine({ parent, hash: ru.hash });
+        child.basePath = '/users';
+        child.routes['user'] = { pattern: '/:id', meta: { breadcrumb: (params: Record<string, ParameterValue> | undefined) => `User ${params?.id}` } };
+        const context = new Map(setup.context);
+        context.set(getRouterContextKey(resolveHashValue(ru.hash)), child);
+        return context;
+    }
+
+    test("Should render nothing when no matching route has breadcrumb metadata.", () => {
+        // Arrange.
+        const { router, context } = setup;
+        router.routes['users'] = { pattern: '/users/*' };
+
+        // Act.
+        const { container } = render(Breadcrumbs, { props: { hash: ru.hash }, context });
+
+        // Assert.
+        expect(container.querySelector('nav')).toBeNull();
+    });
+
+    test("Should render a link for each matching route of the router chain, from the root router down.", () => {
+        // Arrange.
+        const context = createChildRouter();
+
+        // Act.
+        const { container } = render(Breadcrumbs, { props: { hash: ru.hash }, context });
+
+        // Assert.
+        const anchors = Array.from(container.querySelectorAll('nav ol li a'));
+        expect(anchors.map(a => a.textContent?.trim())).toEqual(['Users', 'User 42']);
+        expect(anchors.map(a => a.getAttribute('href'))).toEqual([
+            calculateHref({ hash: ru.hash }, '/users'),
+            calculateHref({ hash: ru.hash }, '/users/42'),
+        ]);
+    });
+
+    test("Should mark the last item as the current page.", () => {
+        // Arrange.
+        const context = createChildRouter();
+
+        // Act.
+        const { container } = render(Breadcrumbs, { props: { hash: ru.hash }, context });
+
+        // Assert.
+        const anchors = Array.from(container.querySelectorAll('a'));
+        expect(anchors.map(a => a.getAttribute('aria-current'))).toEqual([null, 'page']);
+        expect(container.querySelector('nav')?.getAttribute('aria-label')).toBe('Breadcrumb');
+    });
+
+    test("Should render routes without a pattern as text.", () => {
+        // Arrange.
+        const { router, context } = setup;
+        router.routes['users'] = { regex: /^\/users/, meta: { breadcrumb: 'Users' } };
+
+        // Act.
+        const { container } = render(Breadcrumbs, { props: { hash: ru.hash }, context });
+
+        // Assert.
+        expect(container.querySelector('a')).toBeNull();
+        expect(container.querySelector('li span')?.textContent).toBe('Users');
+    });
+
+    test("Should render the items with the given snippet.", () => {
+        // Arrange.
+        const context = createChildRouter();
+        const item = createRawSnippet((crumb: () => BreadcrumbItem) => ({
+            render: () => `<span class="crumb">${crumb().label}${crumb().current ? '!' : ''}</span>`
+        }));
+
+        // Act.
+        const { container } = render(Breadcrumbs, { props: { hash: ru.hash, item }, context });
+
+        // Assert.
+        expect(container.querySelector('a')).toBeNull();
+        expect(Array.from(container.querySelectorAll('.crumb')).map(s => s.textContent)).toEqual(['Users', 'User 42!']);
+    });
+}
+
+ROUTING_UNIVERSES.forEach(ru => {
+    describe(`Breadcrumbs - ${ru.text}`, () => {
+        let cleanup: () => void;
+        beforeAll(() => {
+            cleanup = init({
+                defaultHash: ru.defaultHash,
+                hashMode: ru.hashMode,
+            });
+        });
+        afterAll(() => {
+            cleanup();
+        });
+        breadcrumbsTests(ru);
+    });
+});
@@ -161,6 +161,54 @@ function hrefCalculationTests(setup: ReturnType<typeof createRouterTestSetup>) {
         // Assert.
         expect(anchor?.getAttribute('href')).toContain('/base');
     });
+
+    test("Should build the href from the route key and parameters given in 'to' and 'params'.", async () => {
+        // Arrange.
+        const { hash, router, context } = setup;
+        router.routes['user'] = { pattern: '/users/:id' };
+
+        // Act.
+        const { container } = render(Link, {
+            props: { hash, to: 'user', params: { id: 42 }, children: content },
+            context
+        });
+        const anchor = container.querySelector('a');
+
+        // Assert.
+        expect(anchor?.getAttribute('href')).toBe(router.href('user', { id: 42 }));
+    });
+
+    test("Should render without href while the route given in 'to' is not registered.", async () => {
+        // Arrange.
+        const { hash, router, context } = setup;
+
+        // Act.
+        const { container } = render(Link, {
+            props: { hash, to: 'user', params: { id: 42 }, children: content },
+            context
+        });
+        const anchor = container.querySelector('a');
+        const hrefBefore = anchor?.getAttribute('href');
+        router.routes['user'] = { pattern: '/users/:id' };
+        flushSync();
+
+        // Assert.
+        expect(hrefBefore).toBeNull();
+        expect(anchor?.getAttribute('href')).toBe(router.href('user', { id: 42 }));
+    });
+
+    test("Should throw an error when 'to' is used outside a router.", () => {
+        // Arrange.
+        const { hash } = setup;
+
+        // Act.
+        const act = () => render(Link, {
+            props: { hash, to: 'user', children: content },
+        });
+
+        // Assert.
+        expect(act).toThrowError();
+    });
 }
 
 function activeStateTests(setup: ReturnType<typeof createRouterTestSetup>) {
@@ -206,6 +254,30 @@ function activeStateTests(setup: ReturnType<typeof createRouterTestSetup>) {
         expect(anchor?.className).toContain('active-link');
     });
 
+    test("Should apply active class when any of the route's aliases matches.", () => {
+        // Arrange.
+        const { hash, router, context } = setup;
+        const activeKey = "test-route";
+        router.routes[activeKey] = { pattern: ['/no-match', router.testPath] };
+
+        // Act.
+        const { container } = render(Link, {
+            props: {
+                hash,
+                href: "/test/path",
+                activeFor: activeKey,
+                activeState: { class: "active-link" },
+                children: content
+            },
+            context
+        });
+        const anchor = container.querySelector('a');
+
+        // Assert.
+        expect(router.routeStatus[activeKey].alias).toBe(router.testPath);
+        expect(anchor?.className).toContain('active-link');
+    });
+
     test("Should apply active style when route is active.", async () => {
         // Arrange.
         const { hash, router, context } = setup;
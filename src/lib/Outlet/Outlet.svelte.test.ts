@@ -0,0 +1,122 @@
+import { init } from "$lib/init.js";
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { render } from "@testing-library/svelte";
+import Outlet from "./Outlet.svelte";
+import Route from "$lib/Route/Route.svelte";
+import { location } from "$lib/kernel/Location.js";
+import type { RouterEngine } from "$lib/kernel/RouterEngine.svelte.js";
+import type { PatternRouteInfo } from "$lib/types.js";
+import { buildUniverseUrl, createRouterTestSetup, ROUTING_UNIVERSES, type RoutingUniverse } from "$test/test-utils.js";
+import TestLayoutRoute from "$test/TestLayoutRoute.svelte";
+
+function layoutTests(ru: RoutingUniverse) {
+    beforeEach(() => {
+        location.url.href = buildUniverseUrl(ru, "/");
+    });
+
+    test("Should render the layout's content and the matching child route in the outlet.", () => {
+        // Arrange.
+        location.url.href = buildUniverseUrl(ru, "/settings/security");
+
+        // Act.
+        const { container, queryByText } = render(TestLayoutRoute, { props: { hash: ru.hash } });
+
+        // Assert.
+        expect(queryByText("Settings menu")).not.toBeNull();
+        expect(container.querySelector("main")?.textContent).toContain("Security page");
+        expect(queryByText("Profile page")).toBeNull();
+    });
+
+    test("Should render the layout's content alone when no child route matches.", () => {
+        // Arrange.
+        location.url.href = buildUniverseUrl(ru, "/settings");
+
+        // Act.
+        const { queryByText } = render(TestLayoutRoute, { props: { hash: ru.hash } });
+
+        // Assert.
+        expect(queryByText("Settings menu")).not.toBeNull();
+        expect(queryByText("Profile page")).toBeNull();
+        expect(queryByText("Security page")).toBeNull();
+    });
+
+    test("Should not render the layout when its path does not match.", () => {
+        // Arrange.
+        location.url.href = buildUniverseUrl(ru, "/other");
+
+        // Act.
+        const { queryByText } = render(TestLayoutRoute, { props: { hash: ru.hash } });
+
+        // Assert.
+        expect(queryByText("Settings menu")).toBeNull();
+    });
+
+    test("Should register the layout's pattern with the rest parameter.", () => {
+        // Arrange.
+        location.url.href = buildUniverseUrl(ru, "/settings/profile");
+        let routerInstance: RouterEngine | undefined;
+
+        // Act.
+        const { queryByText } = render(TestLayoutRoute, {
+            props: {
+                hash: ru.hash,
+                get routerInstance() { return routerInstance; },
+                set routerInstance(value) { routerInstance = value; }
+            }
+        });
+
+        // Assert.
+        expect((routerInstance?.routes["settings"] as PatternRouteInfo | undefined)?.pattern).toBe("/settings/*");
+        expect(queryByText("Profile page")).not.toBeNull();
+    });
+
+    test("Should throw an error when the layout's path is not a string pattern.", () => {
+        // Arrange.
+        const setup = createRouterTestSetup(ru.hash);
+        setup.init();
+        const context = setup.context;
+
+        // Act.
+        const act = () => render(Route, { props: { key: "settings", path: /^\/settings/, layout: true, hash: ru.hash }, context });
+
+        // Assert.
+        expect(act).toThrowError();
+        setup.dispose();
+    });
+}
+
+describe("Outlet", () => {
+    let cleanup: () => void;
+
+    beforeAll(() => {
+        cleanup = init();
+    });
+
+    afterAll(() => {
+        cleanup();
+    });
+
+    test("Should throw an error when used outside a layout route.", () => {
+        // Act.
+        const act = () => render(Outlet);
+
+        // Assert.
+        expect(act).toThrowError();
+    });
+});
+
+ROUTING_UNIVERSES.forEach(ru => {
+    describe(`Layout Routes - ${ru.text}`, () => {
+        let cleanup: () => void;
+        beforeAll(() => {
+            cleanup = init({
+                defaultHash: ru.defaultHash,
+                hashMode: ru.hashMode,
+            });
+        });
+        afterAll(() => {
+            cleanup();
+        });
+        layoutTests(ru);
+    });
+});
@@ -0,0 +1,88 @@
+import { init } from "$lib/init.js";
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi, type MockInstance } from "vitest";
+import { render } from "@testing-library/svelte";
+import Redirect from "./Redirect.svelte";
+import { location } from "$lib/kernel/Location.js";
+import { resolveHashValue } from "$lib/kernel/resolveHashValue.js";
+import { buildUniverseUrl, createRouterTestSetup, ROUTING_UNIVERSES, type RoutingUniverse } from "$test/test-utils.js";
+
+function redirectTests(ru: RoutingUniverse) {
+    let setup: ReturnType<typeof createRouterTestSetup>;
+    let navigateSpy: MockInstance<typeof location.navigate>;
+
+    beforeEach(() => {
+        setup = createRouterTestSetup(ru.hash);
+        setup.init();
+        navigateSpy = vi.spyOn(location, 'navigate').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        // Let the chain of redirections end.
+        await new Promise((resolve) => setTimeout(resolve));
+    });
+
+    afterAll(() => {
+        setup.dispose();
+    });
+
+    test("Should redirect to the target path, carrying the route's parameters.", async () => {
+        // Arrange.
+        const { context } = setup;
+        location.url.href = buildUniverseUrl(ru, '/old/42');
+
+        // Act.
+        render(Redirect, { props: { hash: ru.hash, path: '/old/:id', to: '/new/:id', preserveQuery: true }, context });
+
+        // Assert.
+        await vi.waitFor(() => expect(navigateSpy).toHaveBeenCalledOnce());
+        expect(navigateSpy).toHaveBeenCalledWith('/new/42', expect.objectContaining({
+            replace: true,
+            preserveQuery: true,
+            hash: resolveHashValue(ru.hash)
+        }));
+    });
+
+    test("Should not redirect when the path does not match.", async () => {
+        // Arrange.
+        const { context } = setup;
+        location.url.href = buildUniverseUrl(ru, '/other');
+
+        // Act.
+        render(Redirect, { props: { hash: ru.hash, path: '/old/:id', to: '/new/:id' }, context });
+        await new Promise((resolve) => setTimeout(resolve));
+
+        // Assert.
+        expect(navigateSpy).not.toHaveBeenCalled();
+    });
+
+    test("Should register its route under a generated key when no key is given.", () => {
+        // Arrange.
+        const { router, context } = setup;
+        location.url.href = buildUniverseUrl(ru, '/other');
+
+        // Act.
+        render(Redirect, { props: { hash: ru.hash, path: '/old', to: '/new' }, context });
+
+        // Assert.
+        const keys = Object.keys(router.routes);
+        expect(keys).toHaveLength(1);
+        expect(router.routes[keys[0]].redirect).toEqual({ to: '/new', preserveQuery: undefined });
+    });
+}
+
+ROUTING_UNIVERSES.forEach(ru => {
+    describe(`Redirect - ${ru.text}`, () => {
+        let cleanup: () => void;
+        beforeAll(() => {
+            cleanup = init({
+                defaultHash: ru.defaultHash,
+                hashMode: ru.hashMode,
+            });
+        });
+        afterAll(() => {
+            cleanup();
+        });
+        redirectTests(ru);
+    });
+});
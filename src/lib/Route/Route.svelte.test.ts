@@ -1,12 +1,14 @@
-import { describe, test, expect, beforeEach, vi, beforeAll, afterAll, afterEach } from "vitest";
-import { render } from "@testing-library/svelte";
-import Route from "./Route.svelte";
-import { createTestSnippet, createRouterTestSetup, ROUTING_UNIVERSES, ALL_HASHES } from "$test/test-utils.js";
+import { describe, test, expect, expectTypeOf, beforeEach, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { render, fireEvent } from "@testing-library/svelte";
+import { createRawSnippet, flushSync } from "svelte";
+import Route, { type RouteParameters, type RouteParamsRecord } from "./Route.svelte";
+import { createTestSnippet, createRouterTestSetup, ROUTING_UNIVERSES, ALL_HASHES, buildUniverseUrl } from "$test/test-utils.js";
 import { init } from "$lib/init.js";
 import { location } from "$lib/kernel/Location.js";
 import TestRouteWithRouter from "$test/TestRouteWithRouter.svelte";
+import TestRouteComponent from "$test/TestRouteComponent.svelte";
 import { resetRoutingOptions, setRoutingOptions } from "$lib/kernel/options.js";
-import type { ExtendedRoutingOptions, InitOptions } from "$lib/types.js";
+import type { ExtendedRoutingOptions, InitOptions, ParamCodec, ParameterValue } from "$lib/types.js";
 
 function basicRouteTests(setup: ReturnType<typeof createRouterTestSetup>) {
     beforeEach(() => {
@@ -107,6 +109,30 @@ function routePropsTests(setup: ReturnType<typeof createRouterTestSetup>) {
         expect(route.pattern).toBe("/user/:id");
     });
 
+    test("Should register the patterns of a route with aliases.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const patterns = ["/profile", "/me", "/users/:id"];
+        let routerInstance: any;
+
+        // Act.
+        render(TestRouteWithRouter, {
+            props: {
+                hash,
+                routeKey: "alias-route",
+                routePath: patterns,
+                get routerInstance() { return routerInstance; },
+                set routerInstance(value) { routerInstance = value; }
+            },
+            context
+        });
+
+        // Assert.
+        const route = routerInstance?.routes["alias-route"];
+        expect(route).toBeDefined();
+        expect(route.pattern).toEqual(patterns);
+    });
+
     test("Should register regex route.", async () => {
         // Arrange.
         const { hash, context } = setup;
@@ -201,6 +227,30 @@ function routePropsTests(setup: ReturnType<typeof createRouterTestSetup>) {
         const route = routerInstance?.routes["case-route"];
         expect(route?.caseSensitive).toBe(true);
     });
+
+    test("Should set paramCodecs property.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const paramCodecs = { id: 'int' as const };
+        let routerInstance: any;
+
+        // Act.
+        render(TestRouteWithRouter, {
+            props: {
+                hash,
+                routeKey: "codec-route",
+                routePath: "/user/:id",
+                paramCodecs,
+                get routerInstance() { return routerInstance; },
+                set routerInstance(value) { routerInstance = value; }
+            },
+            context
+        });
+
+        // Assert.
+        const route = routerInstance?.routes["codec-route"];
+        expect(route?.paramCodecs).toEqual(paramCodecs);
+    });
 }
 
 function routeParamsTests(setup: ReturnType<typeof createRouterTestSetup>) {
@@ -661,6 +711,30 @@ function routeBindingTestsForUniverse(setup: ReturnType<typeof createRouterTestS
         expect(capturedParams).toEqual({ userId: 123, postId: 456 }); // Numbers due to auto-conversion
     });
 
+    test("Should bind params parsed by the route's parameter codecs.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        let capturedParams: any;
+
+        // Act.
+        render(TestRouteWithRouter, {
+            props: {
+                hash,
+                routeKey: "test-route",
+                routePath: "/user/:userId/post/:postId",
+                paramCodecs: { userId: 'string' },
+                get params() { return capturedParams; },
+                set params(value) { capturedParams = value; },
+            },
+            context
+        });
+        location.url.href = buildUniverseUrl(ru, "/user/007/post/008");
+        await vi.waitFor(() => {});
+
+        // Assert.
+        expect(capturedParams).toEqual({ userId: '007', postId: 8 });
+    });
+
     test("Should bind rest parameter correctly.", async () => {
         // Arrange.
         const { hash, context } = setup;
@@ -706,6 +780,403 @@ function routeBindingTestsForUniverse(setup: ReturnType<typeof createRouterTestS
     });
 }
 
+function routeLazyLoadingTests(setup: ReturnType<typeof createRouterTestSetup>, ru: typeof ROUTING_UNIVERSES[0]) {
+    beforeEach(() => {
+        setup.init();
+        location.url.href = buildUniverseUrl(ru, "/");
+    });
+
+    afterAll(() => {
+        setup.dispose();
+    });
+
+    function deferredLoader() {
+        let resolve!: (value: { default: typeof TestRouteComponent }) => void;
+        const promise = new Promise<{ default: typeof TestRouteComponent }>((res) => { resolve = res; });
+        return {
+            loader: vi.fn(() => promise),
+            resolve: () => resolve({ default: TestRouteComponent }),
+        };
+    }
+
+    const pending = createRawSnippet(() => ({ render: () => '<span data-testid="pending">Loading</span>' }));
+
+    test("Should not load the component while the route does not match.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const { loader } = deferredLoader();
+
+        // Act.
+        render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", component: loader },
+            context
+        });
+        await vi.waitFor(() => {});
+
+        // Assert.
+        expect(loader).not.toHaveBeenCalled();
+    });
+
+    test("Should render the pending snippet while loading, and then the loaded component.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const { loader, resolve } = deferredLoader();
+        location.url.href = buildUniverseUrl(ru, "/user/42");
+
+        // Act.
+        const { findByTestId, queryByTestId } = render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", component: loader, pending },
+            context
+        });
+        await vi.waitFor(() => {});
+        const pendingWhileLoading = queryByTestId('pending');
+        resolve();
+
+        // Assert.
+        expect(pendingWhileLoading).not.toBeNull();
+        expect(loader).toHaveBeenCalledOnce();
+        const loaded = await findByTestId('component');
+        expect(JSON.parse(loaded.dataset.params!)).toEqual({ id: 42 });
+        expect(queryByTestId('pending')).toBeNull();
+        // The route's children are given to the component as its children.
+        expect(loaded.querySelector('[data-testid="route-content"]')).not.toBeNull();
+    });
+
+    test("Should accept loaders that resolve to the component itself.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const loader = vi.fn(() => Promise.resolve(TestRouteComponent));
+
+        // Act.
+        const { findByTestId } = render(TestRouteWithRouter, {
+            props: { hash, component: loader },
+            context
+        });
+
+        // Assert.
+        await expect(findByTestId('component')).resolves.toBeDefined();
+    });
+
+    test("Should reuse the component resolved by a loader.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const loader = vi.fn(() => Promise.resolve({ default: TestRouteComponent }));
+        const first = render(TestRouteWithRouter, {
+            props: { hash, component: loader },
+            context
+        });
+        await first.findByTestId('component');
+        first.unmount();
+
+        // Act.
+        const { queryByTestId } = render(TestRouteWithRouter, {
+            props: { hash, component: loader, pending },
+            context
+        });
+
+        // Assert.
+        expect(queryByTestId('component')).not.toBeNull();
+        expect(queryByTestId('pending')).toBeNull();
+        expect(loader).toHaveBeenCalledOnce();
+    });
+
+    test("Should render the error snippet when loading fails, and load again on retry.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const loader = vi.fn()
+            .mockRejectedValueOnce(new Error("Network error."))
+            .mockResolvedValueOnce({ default: TestRouteComponent });
+        const error = createRawSnippet((err: () => unknown, retry: () => () => void) => ({
+            render: () => `<button data-testid="retry">${(err() as Error).message}</button>`,
+            setup: (node: Element) => {
+                node.addEventListener('click', () => retry()());
+            }
+        }));
+
+        // Act.
+        const { findByTestId } = render(TestRouteWithRouter, {
+            props: { hash, component: loader, error },
+            context
+        });
+        const retryButton = await findByTestId('retry');
+        const errorText = retryButton.textContent;
+        await fireEvent.click(retryButton);
+
+        // Assert.
+        expect(errorText).toBe("Network error.");
+        await expect(findByTestId('component')).resolves.toBeDefined();
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+}
+
+function routeGuardTests(setup: ReturnType<typeof createRouterTestSetup>, ru: typeof ROUTING_UNIVERSES[0]) {
+    beforeEach(() => {
+        setup.init();
+    });
+
+    afterAll(() => {
+        setup.dispose();
+    });
+
+    test("Should register the guard in the router engine.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const guard = () => true;
+        let routerInstance: any;
+
+        // Act.
+        render(TestRouteWithRouter, {
+            props: {
+                hash,
+                routeKey: "guarded",
+                routePath: "/admin",
+                routeGuard: guard,
+                get routerInstance() { return routerInstance; },
+                set routerInstance(value) { routerInstance = value; }
+            },
+            context
+        });
+
+        // Assert.
+        expect(routerInstance?.routes["guarded"]?.guard).toBe(guard);
+    });
+
+    test("Should not render while the guard is pending, and render once it allows the route.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        let resolve!: (value: boolean) => void;
+        const guard = vi.fn(() => new Promise<boolean>((res) => { resolve = res; }));
+        location.url.href = buildUniverseUrl(ru, "/admin/7");
+
+        // Act.
+        const { findByTestId, queryByTestId } = render(TestRouteWithRouter, {
+            props: { hash, routePath: "/admin/:id", routeGuard: guard },
+            context
+        });
+        await vi.waitFor(() => expect(guard).toHaveBeenCalled());
+        const contentWhilePending = queryByTestId('route-content');
+        resolve(true);
+
+        // Assert.
+        expect(contentWhilePending).toBeNull();
+        expect(guard).toHaveBeenCalledWith(expect.objectContaining({ params: { id: 7 } }));
+        await expect(findByTestId('route-content')).resolves.toBeDefined();
+    });
+
+    test("Should keep the content mounted when the URL changes without changing the route's match.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const guard = vi.fn(() => Promise.resolve(true));
+        location.url.href = buildUniverseUrl(ru, "/admin/7");
+        const { findByTestId, queryByTestId } = render(TestRouteWithRouter, {
+            props: { hash, routePath: "/admin/:id", routeGuard: guard },
+            context
+        });
+        const content = await findByTestId('route-content');
+        const url = new URL(location.url.href);
+        url.searchParams.set('page', '2');
+
+        // Act.
+        location.url.href = url.href;
+        flushSync();
+
+        // Assert.
+        expect(queryByTestId('route-content')).toBe(content);
+        expect(guard).toHaveBeenCalledOnce();
+    });
+}
+
+function routeTransitionTests(setup: ReturnType<typeof createRouterTestSetup>, ru: typeof ROUTING_UNIVERSES[0]) {
+    beforeEach(() => {
+        setup.init();
+        location.url.href = buildUniverseUrl(ru, "/");
+    });
+
+    afterAll(() => {
+        setup.dispose();
+    });
+
+    test("Should play the route's transitions with the navigation data when it starts and stops matching.", () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const transition = {
+            in: vi.fn(() => ({ duration: 0 })),
+            out: vi.fn(() => ({ duration: 0 }))
+        };
+        const { container, getByText } = render(Route, {
+            props: { hash, key: "page", path: "/page", transition, children: createTestSnippet('Page') },
+            context
+        });
+
+        // Act.
+        location.navigate("/page", { hash });
+        flushSync();
+        const wrapper = getByText("Page").parentElement;
+        const wrapperParent = wrapper?.parentElement;
+        location.navigate("/other", { hash });
+        flushSync();
+
+        // Assert.
+        expect(wrapperParent).toBe(container);
+        expect(transition.in).toHaveBeenCalledWith(wrapper, { type: 'push', direction: 'forward' });
+        expect(transition.out).toHaveBeenCalledWith(wrapper, { type: 'push', direction: 'forward' });
+    });
+
+    test("Should set the view transition name of the route's content from its parameters.", () => {
+        // Arrange.
+        const { hash, context } = setup;
+        location.url.href = buildUniverseUrl(ru, "/products/42");
+
+        // Act.
+        const { getByText } = render(Route, {
+            props: {
+                hash,
+                key: "product",
+                path: "/products/:id",
+                viewTransitionName: (params: any) => `product-${params?.id}`,
+                children: createTestSnippet('Product')
+            },
+            context
+        });
+
+        // Assert.
+        expect(getByText("Product").parentElement?.style.viewTransitionName).toBe("product-42");
+    });
+
+    test("Should not wrap the route's content when the route has no transitions.", () => {
+        // Arrange.
+        const { hash, context } = setup;
+        location.url.href = buildUniverseUrl(ru, "/page");
+
+        // Act.
+        const { container, getByText } = render(Route, {
+            props: { hash, key: "page", path: "/page", children: createTestSnippet('Page') },
+            context
+        });
+
+        // Assert.
+        expect(getByText("Page").parentElement).toBe(container);
+    });
+}
+
+function routeLoadTests(setup: ReturnType<typeof createRouterTestSetup>, ru: typeof ROUTING_UNIVERSES[0]) {
+    beforeEach(() => {
+        setup.init();
+        location.url.href = buildUniverseUrl(ru, "/");
+    });
+
+    afterAll(() => {
+        setup.dispose();
+    });
+
+    test("Should not run the loader while the route does not match.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const load = vi.fn(() => 'data');
+
+        // Act.
+        render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", routeLoad: load },
+            context
+        });
+        await vi.waitFor(() => {});
+
+        // Assert.
+        expect(load).not.toHaveBeenCalled();
+    });
+
+    test("Should run the loader and give its result to the children.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        let resolve!: (value: { name: string }) => void;
+        const load = vi.fn(() => new Promise<{ name: string }>((res) => { resolve = res; }));
+        location.url.href = buildUniverseUrl(ru, "/user/42");
+
+        // Act.
+        const { getByTestId } = render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", routeLoad: load },
+            context
+        });
+        await vi.waitFor(() => expect(load).toHaveBeenCalledOnce());
+        const loadingWhilePending = getByTestId('route-content').dataset.loading;
+        resolve({ name: 'John' });
+
+        // Assert.
+        expect(loadingWhilePending).toBe('true');
+        expect(load).toHaveBeenCalledWith(expect.objectContaining({
+            params: { id: 42 },
+            url: location.url,
+            signal: expect.any(AbortSignal)
+        }));
+        await vi.waitFor(() => expect(getByTestId('route-content').dataset.loading).toBe('false'));
+        expect(JSON.parse(getByTestId('route-content').dataset.data!)).toEqual({ name: 'John' });
+    });
+
+    test("Should expose the error when the loader fails.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const load = vi.fn(() => Promise.reject(new Error("Not found.")));
+        location.url.href = buildUniverseUrl(ru, "/user/42");
+
+        // Act.
+        const { getByTestId } = render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", routeLoad: load },
+            context
+        });
+
+        // Assert.
+        await vi.waitFor(() => expect(getByTestId('route-content').dataset.error).toBe("Error: Not found."));
+        expect(getByTestId('route-content').dataset.loading).toBe('false');
+    });
+
+    test("Should abort the stale load and keep the newest result when the parameters change.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const loads: { signal: AbortSignal; resolve: (value: string) => void }[] = [];
+        const load = vi.fn(({ signal }: { signal: AbortSignal }) => new Promise<string>((resolve) => {
+            loads.push({ signal, resolve });
+        }));
+        location.url.href = buildUniverseUrl(ru, "/user/1");
+        const { getByTestId } = render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", routeLoad: load },
+            context
+        });
+        await vi.waitFor(() => expect(load).toHaveBeenCalledOnce());
+
+        // Act.
+        location.url.href = buildUniverseUrl(ru, "/user/2");
+        await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(2));
+        loads[1].resolve('second');
+        loads[0].resolve('first');
+
+        // Assert.
+        expect(loads[0].signal.aborted).toBe(true);
+        expect(loads[1].signal.aborted).toBe(false);
+        await vi.waitFor(() => expect(getByTestId('route-content').dataset.data).toBe('"second"'));
+        await Promise.resolve();
+        expect(getByTestId('route-content').dataset.data).toBe('"second"');
+    });
+
+    test("Should not run the loader again when the URL changes but the parameters don't.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const load = vi.fn(() => 'data');
+        location.url.href = buildUniverseUrl(ru, "/user/1");
+        render(TestRouteWithRouter, {
+            props: { hash, routePath: "/user/:id", routeLoad: load },
+            context
+        });
+        await vi.waitFor(() => expect(load).toHaveBeenCalledOnce());
+
+        // Act.
+        location.url.searchParams.set('tab', 'posts');
+        await vi.waitFor(() => {});
+
+        // Assert.
+        expect(load).toHaveBeenCalledOnce();
+    });
+}
+
 describe("Routing Mode Assertions", () => {
     let cleanup: () => void;
 
@@ -822,5 +1293,54 @@ for (const ru of ROUTING_UNIVERSES) {
         describe("Binding", () => {
             routeBindingTestsForUniverse(setup, ru);
         });
+
+        describe("Lazy Loading", () => {
+            routeLazyLoadingTests(setup, ru);
+        });
+
+        describe("Guards", () => {
+            routeGuardTests(setup, ru);
+        });
+
+        describe("Data Loading", () => {
+            routeLoadTests(setup, ru);
+        });
+
+        describe("Transitions", () => {
+            routeTransitionTests(setup, ru);
+        });
     });
 }
+
+describe("RouteParameters", () => {
+    test("Should extract parameter names from patterns.", () => {
+        // Assert.
+        expectTypeOf<RouteParameters<'/users/:id/:tab?'>>().toEqualTypeOf<'id' | 'tab'>();
+        expectTypeOf<RouteParameters<'/users/:id/*'>>().toEqualTypeOf<'id' | 'rest'>();
+    });
+
+    test("Should strip parameter constraints from parameter names.", () => {
+        // Assert.
+        expectTypeOf<RouteParameters<'/users/:id(\\d+)/posts'>>().toEqualTypeOf<'id'>();
+        expectTypeOf<RouteParameters<'/:lang(en|es|fr)/:page([a-z-]+)?'>>().toEqualTypeOf<'lang' | 'page'>();
+    });
+});
+
+describe("RouteParamsRecord", () => {
+    test("Should type parameters from the given codecs.", () => {
+        // Assert.
+        expectTypeOf<RouteParamsRecord<'/:id/:slug/:flag/:ratio/:on', {
+            id: 'int';
+            slug: 'string';
+            flag: 'boolean';
+            ratio: 'number';
+            on: ParamCodec<Date>;
+        }>>().toEqualTypeOf<{ id: number; slug: string; flag: boolean; ratio: number; on: Date; }>();
+    });
+
+    test("Should type parameters without a codec or with the 'auto' codec as ParameterValue.", () => {
+        // Assert.
+        expectTypeOf<RouteParamsRecord<'/:id/:other', { id: 'auto' }>>().toEqualTypeOf<{ id: ParameterValue; other: ParameterValue; }>();
+        expectTypeOf<RouteParamsRecord<'/:id'>>().toEqualTypeOf<{ id: ParameterValue; }>();
+    });
+});
@@ -1,10 +1,13 @@
-import { describe, test, expect, beforeEach, vi, beforeAll, afterAll } from "vitest";
+import { describe, test, expect, beforeEach, afterEach, vi, beforeAll, afterAll } from "vitest";
 import { render } from "@testing-library/svelte";
 import Router, { getRouterContextKey } from "./Router.svelte";
 import { RouterEngine } from "$lib/kernel/RouterEngine.svelte.js";
 import { createTestSnippet, createRouterTestSetup, ROUTING_UNIVERSES } from "$test/test-utils.js";
 import { flushSync } from "svelte";
 import { init } from "$lib/init.js";
+import { location } from "$lib/kernel/Location.js";
+import { announcerId } from "$lib/kernel/focus.js";
+import TestRouteWithRouter from "$test/TestRouteWithRouter.svelte";
 
 function basicRouterTests(setup: ReturnType<typeof createRouterTestSetup>) {
     beforeEach(() => {
@@ -134,6 +137,50 @@ function routerPropsTests(setup: ReturnType<typeof createRouterTestSetup>) {
         expect(routerInstance?.id).toBe(routerId);
     });
 
+    test("Should set exclusive on RouterEngine.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const content = createTestSnippet('<div>Exclusive Test</div>');
+        let routerInstance: RouterEngine | undefined;
+
+        // Act.
+        render(Router, {
+            props: { 
+                hash, 
+                exclusive: true,
+                get router() { return routerInstance; },
+                set router(value) { routerInstance = value; },
+                children: content 
+            },
+            context
+        });
+
+        // Assert.
+        expect(routerInstance?.exclusive).toBe(true);
+    });
+
+    test("Should set the transition mode on RouterEngine.", async () => {
+        // Arrange.
+        const { hash, context } = setup;
+        const content = createTestSnippet('<div>Transition Mode Test</div>');
+        let routerInstance: RouterEngine | undefined;
+
+        // Act.
+        render(Router, {
+            props: {
+                hash,
+                transitionMode: 'out-in',
+                get router() { return routerInstance; },
+                set router(value) { routerInstance = value; },
+                children: content
+            },
+            context
+        });
+
+        // Assert.
+        expect(routerInstance?.transitions.mode).toBe('out-in');
+    });
+
     test("Should handle undefined children gracefully.", async () => {
         // Arrange.
         const { hash, context } = setup;
@@ -509,3 +556,88 @@ for (const ru of ROUTING_UNIVERSES) {
 describe("Router Context Functions", () => {
     contextFunctionTests();
 });
+
+describe("Router Focus Management", () => {
+    let cleanup: () => void;
+
+    beforeAll(() => {
+        cleanup = init({ focus: true });
+    });
+
+    afterAll(() => {
+        cleanup();
+    });
+
+    beforeEach(() => {
+        location.goTo('/');
+    });
+
+    afterEach(() => {
+        document.title = '';
+    });
+
+    test("Should move focus to the heading and announce the title when navigation changes the matching routes.", async () => {
+        // Arrange.
+        document.title = 'Page A';
+        render(TestRouteWithRouter, {
+            props: { hash: false, routePath: '/a', routeChildren: createTestSnippet('<h1>Page A</h1>') }
+        });
+
+        // Act.
+        location.navigate('/a', { hash: false });
+
+        // Assert.
+        await vi.waitFor(() => expect(document.activeElement?.tagName).toBe('H1'));
+        expect(document.activeElement?.getAttribute('tabindex')).toBe('-1');
+        expect(document.getElementById(announcerId)?.textContent).toBe('Page A');
+    });
+
+    test("Should not move focus when the router's focus property is false.", async () => {
+        // Arrange.
+        render(TestRouteWithRouter, {
+            props: { hash: false, focus: false, routePath: '/a', routeChildren: createTestSnippet('<h1>Page A</h1>') }
+        });
+
+        // Act.
+        location.navigate('/a', { hash: false });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        // Assert.
+        expect(document.activeElement).toBe(document.body);
+    });
+});
+
+describe("Router Document Head", () => {
+    let cleanup: () => void;
+
+    beforeAll(() => {
+        cleanup = init({ titleTemplate: '%s | App' });
+    });
+
+    afterAll(() => {
+        cleanup();
+    });
+
+    beforeEach(() => {
+        location.goTo('/');
+        document.title = 'Original';
+    });
+
+    test("Should apply the matching route's title, and restore the previous title when the route stops matching.", async () => {
+        // Arrange.
+        render(TestRouteWithRouter, {
+            props: { hash: false, routePath: '/users/:id', routeTitle: (params: any) => `User ${params.id}` }
+        });
+
+        // Act.
+        location.navigate('/users/42', { hash: false });
+        flushSync();
+        const titleWhileMatching = document.title;
+        location.navigate('/other', { hash: false });
+        flushSync();
+
+        // Assert.
+        expect(titleWhileMatching).toBe('User 42 | App');
+        expect(document.title).toBe('Original');
+    });
+});
@@ -0,0 +1,137 @@
+import { init } from "$lib/init.js";
+import { location } from "$lib/kernel/Location.js";
+import { describe, test, expect, beforeAll, afterAll, vi } from "vitest";
+import { render } from "@testing-library/svelte";
+import RouterView from "./RouterView.svelte";
+import TestRouteComponent from "$test/TestRouteComponent.svelte";
+import { createTestSnippet, ROUTING_UNIVERSES, buildUniverseUrl, type RoutingUniverse } from "$test/test-utils.js";
+import { createRoutes } from "$lib/public-utils.js";
+import type { RouteDefinition } from "$lib/types.js";
+
+function routerViewTests(ru: RoutingUniverse) {
+    const routes = createRoutes([
+        { key: 'home', path: '/', component: TestRouteComponent, props: { label: 'home' } },
+        {
+            key: 'users',
+            path: '/users/:id',
+            component: TestRouteComponent,
+            props: { label: 'user' },
+            children: [
+                { key: 'profile', path: '/', component: TestRouteComponent, props: { label: 'profile' } },
+                { key: 'posts', path: '/posts/:postId', component: TestRouteComponent, props: { label: 'post' } },
+            ]
+        },
+        {
+            key: 'admin',
+            path: '/admin',
+            children: [
+                { key: 'settings', path: '/settings', component: TestRouteComponent, props: { label: 'settings' } },
+            ]
+        },
+    ]);
+
+    async function renderAt(path: string, routeTable: readonly RouteDefinition[] = routes) {
+        location.url.href = buildUniverseUrl(ru, path);
+        const result = render(RouterView, { props: { routes: routeTable, hash: ru.hash } });
+        await vi.waitFor(() => {});
+        return result;
+    }
+
+    test("Should render the component of the matching route.", async () => {
+        // Act.
+        const { queryByTestId } = await renderAt('/');
+
+        // Assert.
+        expect(queryByTestId('home')).not.toBeNull();
+        expect(queryByTestId('user')).toBeNull();
+    });
+
+    test("Should render matching child routes inside the parent route's component.", async () => {
+        // Act.
+        const { getByTestId, queryByTestId } = await renderAt('/users/42/posts/7');
+
+        // Assert.
+        const user = getByTestId('user');
+        expect(JSON.parse(user.dataset.params!)).toEqual({ id: 42, rest: '/posts/7' });
+        const post = user.querySelector('[data-testid="post"]') as HTMLElement;
+        expect(post).not.toBeNull();
+        expect(JSON.parse(post.dataset.params!)).toEqual({ id: 42, postId: 7 });
+        expect(queryByTestId('profile')).toBeNull();
+    });
+
+    test("Should render the child route whose path is the parent route's path.", async () => {
+        // Act.
+        const { getByTestId } = await renderAt('/users/42');
+
+        // Assert.
+        expect(getByTestId('user').querySelector('[data-testid="profile"]')).not.toBeNull();
+    });
+
+    test("Should render child routes of routes without a component.", async () => {
+        // Act.
+        const { queryByTestId } = await renderAt('/admin/settings');
+
+        // Assert.
+        expect(queryByTestId('settings')).not.toBeNull();
+    });
+
+    test("Should render nothing for non-matching routes.", async () => {
+        // Act.
+        const { container } = await renderAt('/other');
+
+        // Assert.
+        expect(container.querySelector('[data-testid]')).toBeNull();
+    });
+
+    test("Should render its children.", async () => {
+        // Arrange.
+        const contentText = "Extra content.";
+        location.url.href = buildUniverseUrl(ru, '/');
+
+        // Act.
+        const { findByText } = render(RouterView, {
+            props: { routes, hash: ru.hash, children: createTestSnippet(contentText) }
+        });
+
+        // Assert.
+        await expect(findByText(contentText)).resolves.toBeDefined();
+    });
+
+    test("Should only render the most specific route when in exclusive mode.", async () => {
+        // Arrange.
+        const exclusiveRoutes = createRoutes([
+            { key: 'user', path: '/users/:id', component: TestRouteComponent, props: { label: 'user' } },
+            { key: 'newUser', path: '/users/new', component: TestRouteComponent, props: { label: 'newUser' } },
+        ]);
+        location.url.href = buildUniverseUrl(ru, '/users/new');
+
+        // Act.
+        const { queryByTestId } = render(RouterView, {
+            props: { routes: exclusiveRoutes, hash: ru.hash, exclusive: true }
+        });
+        await vi.waitFor(() => {});
+
+        // Assert.
+        expect(queryByTestId('newUser')).not.toBeNull();
+        expect(queryByTestId('user')).toBeNull();
+    });
+}
+
+ROUTING_UNIVERSES.forEach(ru => {
+    describe(`RouterView - ${ru.text}`, () => {
+        let cleanup: () => void;
+
+        beforeAll(() => {
+            cleanup = init({
+                defaultHash: ru.defaultHash,
+                hashMode: ru.hashMode,
+            });
+        });
+
+        afterAll(() => {
+            cleanup();
+        });
+
+        routerViewTests(ru);
+    });
+});
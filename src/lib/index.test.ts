@@ -10,7 +10,11 @@ describe('index', () => {
             'LinkContext',
             'Route',
             'Router',
+            'RouterView',
             'Fallback',
+            'Breadcrumbs',
+            'Redirect',
+            'Outlet',
             'location',
             'RouterTrace',
             'init',
@@ -18,6 +22,7 @@ describe('index', () => {
             'getRouterContext',
             'setRouterContext',
             'isRouteActive',
+            'createRoutes',
             'activeBehavior',
         ];
 
@@ -6,8 +6,12 @@ export * from "./Route/Route.svelte";
 export { default as Route } from "./Route/Route.svelte";
 export { getRouterContext, setRouterContext } from "./Router/Router.svelte";
 export { default as Router } from "./Router/Router.svelte";
+export { default as RouterView } from "./RouterView/RouterView.svelte";
 export * from "./Fallback/Fallback.svelte";
 export { default as Fallback } from "./Fallback/Fallback.svelte";
+export { default as Breadcrumbs } from "./Breadcrumbs/Breadcrumbs.svelte";
+export { default as Redirect } from "./Redirect/Redirect.svelte";
+export { default as Outlet } from "./Outlet/Outlet.svelte";
 export type * from "./types.js";
 export { location } from "./kernel/Location.js";
 export * from './RouterTrace/RouterTrace.svelte';
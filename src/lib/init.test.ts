@@ -2,7 +2,7 @@ import { describe, test, expect, afterEach } from "vitest";
 import { init, initFull } from "./init.js";
 import { location } from "./kernel/Location.js";
 import { LocationLite } from "./kernel/LocationLite.svelte.js";
-import { LocationFull } from "./kernel/LocationFull.js";
+import { LocationFull } from "./kernel/LocationFull.svelte.js";
 
 let cleanup: (() => void) | undefined;
 
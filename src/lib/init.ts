@@ -1,4 +1,4 @@
-import { LocationFull } from "./kernel/LocationFull.js";
+import { LocationFull } from "./kernel/LocationFull.svelte.js";
 import { LocationLite } from "./kernel/LocationLite.svelte.js";
 import type { InitOptions } from "./types.js";
 import { initCore } from "./kernel/initCore.js";
@@ -273,7 +273,7 @@ describe("InterceptedHistoryApi", () => {
 
             // Assert.
             expect(callback).toHaveBeenCalledOnce();
-            expect(historyApi.state).toEqual(state);
+            expect(historyApi.state).toEqual({ ...state, index: stateFn === 'pushState' ? 1 : 0, key: expect.any(String) });
 
             // Cleanup.
             unSub();
@@ -292,7 +292,7 @@ describe("InterceptedHistoryApi", () => {
             historyApi[stateFn](invalidState, '', 'http://example.com/other');
 
             // Assert.
-            expect(historyApi.state).toEqual(validState);
+            expect(historyApi.state).toEqual({ ...validState, index: stateFn === 'pushState' ? 1 : 0, key: expect.any(String) });
         });
 
         test("Should not call the original history method when navigation is cancelled.", () => {
@@ -319,7 +319,196 @@ describe("InterceptedHistoryApi", () => {
             historyApi.pushState(state, '', 'http://example.com/other');
 
             // Assert.
-            expect(originalPushState).toHaveBeenCalledWith(state, '', 'http://example.com/other');
+            expect(originalPushState).toHaveBeenCalledWith({ ...state, index: 1, key: expect.any(String) }, '', 'http://example.com/other');
+        });
+
+        test("Should hold the navigation until the promise returned by a beforeNavigate handler settles.", async () => {
+            // Arrange.
+            const originalPushState = vi.spyOn(browserMocks.history, 'pushState');
+            let allow!: () => void;
+            historyApi.on('beforeNavigate', () => new Promise<void>((resolve) => allow = resolve));
+            const state = { path: { test: 'value' }, hash: {} };
+
+            // Act.
+            historyApi.pushState(state, '', 'http://example.com/other');
+            const calledEarly = originalPushState.mock.calls.length > 0;
+            allow();
+
+            // Assert.
+            expect(calledEarly).toBe(false);
+            expect(historyApi.url.href).not.toBe('http://example.com/other');
+            await vi.waitFor(() => expect(originalPushState).toHaveBeenCalledWith({ ...state, index: 1, key: expect.any(String) }, '', 'http://example.com/other'));
+            expect(historyApi.url.href).toBe('http://example.com/other');
+        });
+
+        test("Should only carry out the newest navigation when a held navigation is superseded.", async () => {
+            // Arrange.
+            const originalPushState = vi.spyOn(browserMocks.history, 'pushState');
+            const allowFunctions: (() => void)[] = [];
+            historyApi.on('beforeNavigate', () => new Promise<void>((resolve) => allowFunctions.push(resolve)));
+
+            // Act.
+            historyApi.pushState({ path: 1, hash: {} }, '', 'http://example.com/first');
+            historyApi.pushState({ path: 2, hash: {} }, '', 'http://example.com/second');
+            allowFunctions.forEach(allow => allow());
+
+            // Assert.
+            await vi.waitFor(() => expect(historyApi.url.href).toBe('http://example.com/second'));
+            expect(originalPushState).toHaveBeenCalledOnce();
+        });
+    });
+
+    describe("scrollRestoration", () => {
+        test("Should get and set the value of the original History API.", () => {
+            // Act.
+            historyApi.scrollRestoration = 'manual';
+
+            // Assert.
+            expect(browserMocks.history.scrollRestoration).toBe('manual');
+            expect(historyApi.scrollRestoration).toBe('manual');
+        });
+    });
+
+    describe("History traversal", () => {
+        const entryUrl = 'http://example.com/entry';
+
+        // window.history is the object under test, so only the environment's URL may be changed.
+        function traverse(state: unknown, url: string) {
+            browserMocks.setUrl(url);
+            globalThis.window.dispatchEvent(new PopStateEvent('popstate', { state }));
+        }
+
+        beforeEach(() => {
+            // Current entry at index 2.
+            browserMocks.setUrl('http://example.com/current');
+            historyApi.url.href = 'http://example.com/current';
+            historyApi.state = { path: 'current', hash: {}, index: 2 };
+        });
+
+        test.each([
+            'back' as const,
+            'forward' as const,
+        ])("Should delegate %s() to the original History API.", (fn) => {
+            // Act.
+            historyApi[fn]();
+
+            // Assert.
+            expect(browserMocks.history[fn]).toHaveBeenCalledOnce();
+        });
+
+        test("Should delegate go() to the original History API.", () => {
+            // Act.
+            historyApi.go(-2);
+
+            // Assert.
+            expect(browserMocks.history.go).toHaveBeenCalledExactlyOnceWith(-2);
+        });
+
+        test("Should raise 'beforeNavigate' with method 'pop' and apply the traversal when not cancelled.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            const state = { path: 'entry', hash: {}, index: 1 };
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            traverse(state, entryUrl);
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ url: entryUrl, state, method: 'pop' }));
+            expect(historyApi.url.href).toBe(entryUrl);
+            expect(historyApi.state).toEqual(state);
+        });
+
+        test("Should move back to the previous entry and raise 'navigationCancelled' when the traversal is cancelled.", () => {
+            // Arrange.
+            const cancelledCallback = vi.fn();
+            const navigatedCallback = vi.fn();
+            historyApi.on('beforeNavigate', (e) => e.cancel('unsaved'));
+            historyApi.on('navigationCancelled', cancelledCallback);
+            historyApi.onNavigated(navigatedCallback);
+
+            // Act.
+            traverse({ path: 'entry', hash: {}, index: 1 }, entryUrl);
+            traverse({ path: 'current', hash: {}, index: 2 }, 'http://example.com/current');
+
+            // Assert.
+            expect(browserMocks.history.go).toHaveBeenCalledExactlyOnceWith(1);
+            expect(cancelledCallback).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({
+                url: entryUrl,
+                method: 'pop',
+                cause: 'unsaved'
+            }));
+            expect(historyApi.url.href).toBe('http://example.com/current');
+            expect(historyApi.state).toEqual({ path: 'current', hash: {}, index: 2 });
+            expect(navigatedCallback).not.toHaveBeenCalled();
+        });
+
+        test("Should hold the traversal while asynchronous handlers decide, and undo it if they cancel.", async () => {
+            // Arrange.
+            let decide!: () => void;
+            historyApi.on('beforeNavigate', (e) => new Promise<void>((resolve) => decide = () => {
+                e.cancel();
+                resolve();
+            }));
+
+            // Act.
+            traverse({ path: 'entry', hash: {}, index: 4 }, entryUrl);
+            const heldUrl = historyApi.url.href;
+            decide();
+
+            // Assert.
+            expect(heldUrl).toBe('http://example.com/current');
+            await vi.waitFor(() => expect(browserMocks.history.go).toHaveBeenCalledExactlyOnceWith(-2));
+            expect(historyApi.url.href).toBe('http://example.com/current');
+        });
+
+        test("Should hold the traversal while asynchronous handlers decide, and apply it if they allow it.", async () => {
+            // Arrange.
+            let allow!: () => void;
+            historyApi.on('beforeNavigate', () => new Promise<void>((resolve) => allow = resolve));
+
+            // Act.
+            traverse({ path: 'entry', hash: {}, index: 1 }, entryUrl);
+            const heldUrl = historyApi.url.href;
+            allow();
+
+            // Assert.
+            expect(heldUrl).toBe('http://example.com/current');
+            await vi.waitFor(() => expect(historyApi.url.href).toBe(entryUrl));
+            expect(browserMocks.history.go).not.toHaveBeenCalled();
+        });
+
+        test("Should ignore the hashchange events of a cancelled traversal between hash-only different entries.", () => {
+            // Arrange.
+            browserMocks.setUrl('http://example.com/#/current');
+            historyApi.url.href = 'http://example.com/#/current';
+            historyApi.state = { path: undefined, hash: { single: 'current' }, index: 2 };
+            historyApi.on('beforeNavigate', (e) => e.cancel());
+
+            // Act.
+            traverse({ path: undefined, hash: { single: 'entry' }, index: 1 }, 'http://example.com/#/entry');
+            browserMocks.triggerHashChange();
+            traverse({ path: undefined, hash: { single: 'current' }, index: 2 }, 'http://example.com/#/current');
+            browserMocks.triggerHashChange();
+
+            // Assert.
+            expect(historyApi.url.href).toBe('http://example.com/#/current');
+            expect(historyApi.state).toEqual({ path: undefined, hash: { single: 'current' }, index: 2 });
+        });
+
+        test("Should not intercept fragment navigation.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            traverse(null, 'http://example.com/current#fragment');
+            browserMocks.triggerHashChange();
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalledWith(expect.objectContaining({ method: 'pop' }));
+            expect(historyApi.url.href).toBe('http://example.com/current#fragment');
+            expect(historyApi.state.index).toBe(3);
         });
     });
 
@@ -332,7 +521,7 @@ describe("InterceptedHistoryApi", () => {
             historyApi.pushState(newState, '', 'http://example.com/test');
 
             // Assert.
-            expect(historyApi.state).toEqual(newState);
+            expect(historyApi.state).toEqual({ ...newState, index: 1, key: expect.any(String) });
             expect(historyApi.url.href).toBe('http://example.com/test');
         });
 
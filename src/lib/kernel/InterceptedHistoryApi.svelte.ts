@@ -1,19 +1,23 @@
-import type { BeforeNavigateEvent, NavigationCancelledEvent, NavigationEvent, State, FullModeHistoryApi, Events } from "../types.js";
+import type { BeforeNavigateEvent, NavigationCancelledEvent, State, FullModeHistoryApi } from "../types.js";
 import { isConformantState } from "./isConformantState.js";
-import { StockHistoryApi } from "./StockHistoryApi.svelte.js";
+import { isHashOnlyChange, StockHistoryApi } from "./StockHistoryApi.svelte.js";
 import { logger } from "./Logger.js";
+import { NavigationEventHub, type NavigationEventHandler } from "./NavigationEventHub.js";
 
 /**
  * HistoryApi implementation that intercepts navigation calls to provide beforeNavigate
  * and navigationCancelled events. Used by LocationFull for advanced navigation control.
+ *
+ * History traversals (back and forward navigation) are reported with the `pop` method.  Because the environment
+ * has already moved to the new history entry by the time the `popstate` event occurs, cancelling a traversal moves 
+ * back to the previous entry with `history.go()`, using the entry indexes kept in the state objects.  Traversals to 
+ * entries whose index cannot be told apart from the current one cannot be cancelled, and are not reported.
  */
 export class InterceptedHistoryApi extends StockHistoryApi implements FullModeHistoryApi {
-    #eventSubs: Record<Events, Record<number, Function>> = {
-        beforeNavigate: {},
-        navigationCancelled: {},
-    };
-    #nextSubId = 0;
+    #events = new NavigationEventHub();
     #originalHistory: History | undefined;
+    #restoring = false;
+    #ignoredHashChanges = 0;
 
     constructor(initialUrl?: string, initialState?: State) {
         super(initialUrl, initialState);
@@ -31,66 +35,107 @@ export class InterceptedHistoryApi extends StockHistoryApi implements FullModeHi
         this.#navigate('replace', data, unused, url);
     }
 
-    #navigate(method: NavigationEvent['method'], state: any, unused: string, url?: string | URL | null) {
-        const urlString = url?.toString() || '';
-        const event: BeforeNavigateEvent = {
-            url: urlString,
-            state,
-            method,
-            wasCancelled: false,
-            cancelReason: undefined,
-            cancel: (cause) => {
-                if (event.wasCancelled) {
-                    return;
-                }
-                event.wasCancelled = true;
-                event.cancelReason = cause;
-            }
-        };
+    get scrollRestoration(): ScrollRestoration {
+        return this.#originalHistory?.scrollRestoration ?? 'auto';
+    }
 
-        // Notify beforeNavigate listeners
-        for (let sub of Object.values(this.#eventSubs.beforeNavigate)) {
-            sub(event);
+    set scrollRestoration(value: ScrollRestoration) {
+        if (this.#originalHistory) {
+            this.#originalHistory.scrollRestoration = value;
         }
+    }
 
-        if (event.wasCancelled) {
-            // Notify navigationCancelled listeners
-            for (let sub of Object.values(this.#eventSubs.navigationCancelled)) {
-                sub({
-                    url: urlString,
-                    state: event.state,
-                    method,
-                    cause: event.cancelReason,
-                });
-            }
-        } else {
+    back(): void {
+        this.#originalHistory?.back();
+    }
+
+    forward(): void {
+        this.#originalHistory?.forward();
+    }
+
+    go(delta?: number): void {
+        this.#originalHistory?.go(delta);
+    }
+
+    #navigate(method: 'push' | 'replace', state: any, unused: string, url?: string | URL | null) {
+        this.#events.raiseBeforeNavigate(url?.toString() || '', state, method, (event) => {
             if (!isConformantState(event.state)) {
                 logger.warn(`Warning: Non-conformant state object passed to history.${method}State. Previous state will prevail.`);
                 event.state = this.state;
             }
-            this.#originalHistory?.[`${method}State`](event.state, unused, url);
+            const newState: State = { ...(event.state as State), ...this.nextEntry(method) };
+            this.#originalHistory?.[`${method}State`](newState, unused, url);
             this.url.href = globalThis.window?.location?.href ?? new URL(url ?? '', this.url).href;
-            this.state = event.state as State;
+            this.state = newState;
+            this.raiseNavigated(method);
+        });
+    }
+
+    handlePopstate(event: PopStateEvent): void {
+        if (this.#restoring) {
+            // This is the traversal that undoes a cancelled traversal.
+            this.#restoring = false;
+            return;
+        }
+        const targetIndex = isConformantState(event.state) ? event.state.index ?? 0 : 0;
+        const delta = targetIndex - (this.state.index ?? 0);
+        if (!this.isTraversal(event) || delta === 0) {
+            super.handlePopstate(event);
+            return;
+        }
+        const hashOnly = isHashOnlyChange(this.url, new URL(globalThis.window.location.href));
+        let decided = false;
+        let held = false;
+        this.#events.raiseBeforeNavigate(
+            globalThis.window.location.href,
+            event.state,
+            'pop',
+            () => {
+                decided = true;
+                super.handlePopstate(event);
+                if (held && hashOnly) {
+                    // The traversal's hashchange event was ignored while held.
+                    super.handleHashChange();
+                }
+            },
+            (cancelledEvent) => {
+                decided = true;
+                if (cancelledEvent.cancelReason === 'superseded') {
+                    // The newer navigation determines the resulting history entry.
+                    return;
+                }
+                this.#restoring = true;
+                this.#ignoredHashChanges += hashOnly ? (held ? 1 : 2) : 0;
+                this.go(-delta);
+            }
+        );
+        if (!decided) {
+            held = true;
+            // The hashchange event of the traversal must wait for the beforeNavigate handlers.
+            this.#ignoredHashChanges += hashOnly ? 1 : 0;
+        }
+    }
+
+    handleHashChange(): void {
+        if (this.#ignoredHashChanges > 0) {
+            --this.#ignoredHashChanges;
+            return;
         }
+        super.handleHashChange();
     }
 
     /**
      * Subscribe to navigation events.
      */
-    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void): () => void;
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
     on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
-    on(event: Events, callback: Function): () => void {
-        const id = ++this.#nextSubId;
-        this.#eventSubs[event][id] = callback;
-        return () => delete this.#eventSubs[event][id];
+    on<K extends 'beforeNavigate' | 'navigationCancelled'>(event: K, callback: NavigationEventHandler<K>): () => void {
+        return this.#events.on(event, callback);
     }
 
     dispose(): void {
         // Clear event subscriptions
-        this.#eventSubs = {
-            beforeNavigate: {},
-            navigationCancelled: {},
-        };
+        this.#events.clear();
         if (this.#originalHistory) {
             globalThis.window.history = this.#originalHistory;
         }
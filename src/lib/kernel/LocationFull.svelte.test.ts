@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { LocationFull } from "./LocationFull.svelte.js";
+import type { State, Location, FullModeHistoryApi } from "../types.js";
+import { setupBrowserMocks, ALL_HASHES } from "$test/test-utils.js";
+import { SvelteURL } from "svelte/reactivity";
+import { flushSync } from "svelte";
+import { render } from "@testing-library/svelte";
+import TestBlocker from "$test/TestBlocker.svelte";
+
+describe("LocationFull", () => {
+    const initialUrl = "http://example.com/";
+    let location: Location;
+    let browserMocks: ReturnType<typeof setupBrowserMocks>;
+
+    beforeEach(() => {
+        browserMocks = setupBrowserMocks(initialUrl);
+        location = new LocationFull();
+    });
+
+    afterEach(() => {
+        location.dispose();
+        browserMocks.cleanup();
+    });
+
+    describe('constructor', () => {
+        test("Should create a new instance with the expected default values.", () => {
+            // Assert.
+            expect(location.url.href).toBe(initialUrl);
+        });
+
+        test("Should use provided FullModeHistoryApi instance.", () => {
+            // Arrange.
+            const mockHistoryApi: FullModeHistoryApi = {
+                url: new SvelteURL(initialUrl),
+                state: { path: { test: 'value' }, hash: {} },
+                pushState: vi.fn(),
+                replaceState: vi.fn(),
+                dispose: vi.fn(),
+                length: 0,
+                scrollRestoration: 'auto' as const,
+                back: vi.fn(),
+                forward: vi.fn(),
+                go: vi.fn(),
+                on: vi.fn().mockReturnValue(() => { }),
+            };
+            const locationWithMock = new LocationFull(mockHistoryApi);
+
+            // Act.
+            locationWithMock.goTo('');
+            locationWithMock.goTo('', { replace: true });
+            locationWithMock.go(1);
+            locationWithMock.back();
+            locationWithMock.forward();
+            const href = locationWithMock.url.toString();
+            const state = locationWithMock.getState(ALL_HASHES.path);
+            locationWithMock.dispose();
+
+            // Assert.
+            expect(mockHistoryApi.pushState).toHaveBeenCalled();
+            expect(mockHistoryApi.replaceState).toHaveBeenCalled();
+            expect(mockHistoryApi.go).toHaveBeenCalledWith(1);
+            expect(mockHistoryApi.back).toHaveBeenCalled();
+            expect(mockHistoryApi.forward).toHaveBeenCalled();
+            expect(href).toEqual(initialUrl);
+            expect(state).toEqual({ test: 'value' });
+            expect(mockHistoryApi.dispose).toHaveBeenCalled();
+        });
+    });
+
+    describe('on', () => {
+        test("Should delegate event registration to FullModeHistoryApi.", () => {
+            // Arrange.
+            const mockHistoryApi: FullModeHistoryApi = {
+                url: new SvelteURL(initialUrl),
+                state: { path: undefined, hash: {} },
+                pushState: vi.fn(),
+                replaceState: vi.fn(),
+                dispose: vi.fn(),
+                length: 0,
+                scrollRestoration: 'auto' as const,
+                back: vi.fn(),
+                forward: vi.fn(),
+                go: vi.fn(),
+                on: vi.fn().mockReturnValue(() => { }),
+            };
+            const locationWithMock = new LocationFull(mockHistoryApi);
+            const callback = vi.fn();
+
+            // Act.
+            locationWithMock.on('beforeNavigate', callback);
+            locationWithMock.on('navigationCancelled', callback);
+
+            // Assert.
+            expect(mockHistoryApi.on).toHaveBeenCalledWith('beforeNavigate', callback);
+            expect(mockHistoryApi.on).toHaveBeenCalledWith('navigationCancelled', callback);
+
+            // Cleanup.
+            locationWithMock.dispose();
+        });
+    });
+
+    describe('Navigation lifecycle events', () => {
+        test("Should raise navigationEnd with completed set to false when navigation is cancelled.", () => {
+            // Arrange.
+            const afterNavigate = vi.fn();
+            const navigationEnd = vi.fn();
+            location.on('beforeNavigate', (e) => e.cancel());
+            location.on('afterNavigate', afterNavigate);
+            location.on('navigationEnd', navigationEnd);
+
+            // Act.
+            location.goTo('/new/path');
+
+            // Assert.
+            expect(afterNavigate).not.toHaveBeenCalled();
+            expect(navigationEnd).toHaveBeenCalledWith({
+                type: 'push',
+                previousUrl: initialUrl,
+                url: 'http://example.com/new/path',
+                completed: false,
+            });
+        });
+
+        test("Should raise navigationEnd once navigation held by an asynchronous handler is carried out.", async () => {
+            // Arrange.
+            let allow!: () => void;
+            const navigationEnd = vi.fn();
+            location.on('beforeNavigate', () => new Promise<void>((resolve) => allow = resolve));
+            location.on('navigationEnd', navigationEnd);
+
+            // Act.
+            location.goTo('/new/path');
+            const calledEarly = navigationEnd.mock.calls.length > 0;
+            allow();
+
+            // Assert.
+            expect(calledEarly).toBe(false);
+            await vi.waitFor(() => expect(navigationEnd).toHaveBeenCalledWith(expect.objectContaining({
+                url: 'http://example.com/new/path',
+                completed: true,
+            })));
+            expect(location.url.href).toBe('http://example.com/new/path');
+        });
+
+        test("Should raise navigationEnd with completed set to false for superseded navigation.", async () => {
+            // Arrange.
+            const allowFunctions: (() => void)[] = [];
+            const navigationEnd = vi.fn();
+            location.on('beforeNavigate', () => new Promise<void>((resolve) => allowFunctions.push(resolve)));
+            location.on('navigationEnd', navigationEnd);
+
+            // Act.
+            location.goTo('/first');
+            location.goTo('/second');
+            allowFunctions.forEach(allow => allow());
+
+            // Assert.
+            await vi.waitFor(() => expect(navigationEnd).toHaveBeenCalledTimes(2));
+            expect(navigationEnd.mock.calls).toEqual([
+                [expect.objectContaining({ url: 'http://example.com/first', completed: false })],
+                [expect.objectContaining({ url: 'http://example.com/second', completed: true })],
+            ]);
+        });
+
+        test("Should raise afterNavigate when other code calls window.history.pushState().", () => {
+            // Arrange.
+            const callback = vi.fn();
+            location.on('afterNavigate', callback);
+
+            // Act.
+            globalThis.window.history.pushState({ path: undefined, hash: {} }, '', 'http://example.com/foreign');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'push',
+                previousUrl: initialUrl,
+                url: 'http://example.com/foreign',
+            }));
+        });
+    });
+
+    describe('block', () => {
+        function dispatchBeforeUnload() {
+            const event = new Event('beforeunload', { cancelable: true });
+            globalThis.window.dispatchEvent(event);
+            return event;
+        }
+
+        test("Should cancel navigation with the blocker's message as cause.", () => {
+            // Arrange.
+            const cancelledCallback = vi.fn();
+            location.on('navigationCancelled', cancelledCallback);
+            location.block({ message: 'Unsaved changes.' });
+
+            // Act.
+            location.goTo('/new/path');
+
+            // Assert.
+            expect(location.url.href).toBe(initialUrl);
+            expect(cancelledCallback).toHaveBeenCalledWith(expect.objectContaining({ cause: 'Unsaved changes.' }));
+        });
+
+        test.each([
+            { when: false, blocked: false },
+            { when: true, blocked: true },
+            { when: () => false, blocked: false },
+            { when: () => true, blocked: true },
+        ])("Should honor the 'when' option (when = $when).", ({ when, blocked }) => {
+            // Arrange.
+            location.block({ when });
+            flushSync();
+
+            // Act.
+            location.goTo('/new/path');
+            const event = dispatchBeforeUnload();
+
+            // Assert.
+            expect(location.url.href).toBe(blocked ? initialUrl : 'http://example.com/new/path');
+            expect(event.defaultPrevented).toBe(blocked);
+        });
+
+        test("Should evaluate the 'when' function at navigation time.", () => {
+            // Arrange.
+            let dirty = false;
+            location.block({ when: () => dirty });
+            location.goTo('/first');
+
+            // Act.
+            dirty = true;
+            location.goTo('/second');
+
+            // Assert.
+            expect(location.url.href).toBe('http://example.com/first');
+        });
+
+        test("Should stop blocking once the blocker is removed.", () => {
+            // Arrange.
+            const unblock = location.block();
+            flushSync();
+
+            // Act.
+            unblock();
+            location.goTo('/new/path');
+            const event = dispatchBeforeUnload();
+
+            // Assert.
+            expect(location.url.href).toBe('http://example.com/new/path');
+            expect(event.defaultPrevented).toBe(false);
+        });
+
+        test("Should only listen to the 'beforeunload' event while the blocker is active.", () => {
+            // Arrange.
+            let dirty = $state(false);
+            const addListenerSpy = vi.spyOn(globalThis.window, 'addEventListener');
+            const unblock = location.block({ when: () => dirty });
+            flushSync();
+            const listenedWhileInactive = addListenerSpy.mock.calls.some(([type]) => type === 'beforeunload');
+
+            // Act.
+            dirty = true;
+            flushSync();
+            const event = dispatchBeforeUnload();
+
+            // Assert.
+            expect(listenedWhileInactive).toBe(false);
+            expect(event.defaultPrevented).toBe(true);
+            unblock();
+            addListenerSpy.mockRestore();
+        });
+
+        test("Should remove the blocker when the component that created it is destroyed.", () => {
+            // Arrange.
+            const { unmount } = render(TestBlocker, { props: { location } });
+            flushSync();
+
+            // Act.
+            unmount();
+            location.goTo('/new/path');
+            const event = dispatchBeforeUnload();
+
+            // Assert.
+            expect(location.url.href).toBe('http://example.com/new/path');
+            expect(event.defaultPrevented).toBe(false);
+        });
+
+        test("Should remove the blocker when the effect that created it is destroyed.", () => {
+            // Arrange.
+            const destroy = $effect.root(() => {
+                $effect(() => {
+                    location.block();
+                });
+            });
+            flushSync();
+
+            // Act.
+            destroy();
+            location.goTo('/new/path');
+            const event = dispatchBeforeUnload();
+
+            // Assert.
+            expect(location.url.href).toBe('http://example.com/new/path');
+            expect(event.defaultPrevented).toBe(false);
+        });
+    });
+
+    describe('getState', () => {
+        test.each([
+            'pushState',
+            'replaceState',
+        ] satisfies (keyof History)[])("Should update whenever an external call to %s is made.", (fn) => {
+            // Arrange.
+            const state: State = { path: { test: 'value' }, hash: { single: '/abc', p1: '/def' } };
+
+            // Act.
+            globalThis.window.history[fn](state, '', 'http://example.com/new');
+
+            // Assert.
+            expect(location.getState(ALL_HASHES.path)).toEqual(state.path);
+            expect(location.getState(ALL_HASHES.single)).toEqual(state.hash.single);
+            expect(location.getState('tp')).toEqual(state.hash.tp);
+        });
+    });
+});
\ No newline at end of file
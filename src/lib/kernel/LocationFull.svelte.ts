@@ -0,0 +1,87 @@
+import type {
+    AfterNavigateEvent,
+    BeforeNavigateEvent,
+    BlockOptions,
+    NavigationCancelledEvent,
+    NavigationEndEvent,
+    NavigationStartEvent,
+    FullModeHistoryApi,
+    Events
+} from "../types.js";
+import { LocationLite } from "./LocationLite.svelte.js";
+import { InterceptedHistoryApi } from "./InterceptedHistoryApi.svelte.js";
+import { on } from "svelte/events";
+import { onDestroy } from "svelte";
+
+/**
+ * Location implementation of the library's full mode feature.
+ * Replaces window.history with an InterceptedHistoryApi to capture all navigation events.
+ */
+export class LocationFull extends LocationLite {
+    #historyApi: FullModeHistoryApi;
+    
+    constructor(historyApi?: FullModeHistoryApi) {
+        const api = historyApi ?? new InterceptedHistoryApi();
+        super(api);
+        this.#historyApi = api;
+    }
+
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
+    on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
+    on(event: 'navigationStart', callback: (event: NavigationStartEvent) => void): () => void;
+    on(event: 'afterNavigate', callback: (event: AfterNavigateEvent) => void): () => void;
+    on(event: 'navigationEnd', callback: (event: NavigationEndEvent) => void): () => void;
+    on(event: Events, callback: Function): () => void {
+        if (event === 'beforeNavigate' || event === 'navigationCancelled') {
+            return this.#historyApi.on(event as any, callback as any);
+        }
+        return super.on(event as any, callback as any);
+    }
+
+    block(options?: BlockOptions): () => void {
+        const isActive = () => typeof options?.when === 'function' ? options.when() : options?.when ?? true;
+        const unsubscribe = this.on('beforeNavigate', (event) => {
+            if (!event.wasCancelled && isActive()) {
+                event.cancel(options?.message);
+            }
+        });
+        // The beforeunload listener is only kept while the blocker is active, as it keeps browsers from placing the 
+        // page in their back/forward cache.
+        const stopListening = $effect.root(() => {
+            $effect(() => {
+                if (!globalThis.window || !isActive()) {
+                    return;
+                }
+                return on(globalThis.window, 'beforeunload', (event) => {
+                    if (isActive()) {
+                        event.preventDefault();
+                        // Legacy way of triggering the prompt, still needed by some browsers.
+                        event.returnValue = options?.message ?? true;
+                    }
+                });
+            });
+        });
+        let removed = false;
+        const unblock = () => {
+            if (removed) {
+                return;
+            }
+            removed = true;
+            unsubscribe();
+            stopListening();
+        };
+        if ($effect.tracking()) {
+            // Blockers created inside an effect are removed when the effect re-runs or is destroyed.
+            $effect(() => unblock);
+        }
+        else {
+            try {
+                onDestroy(unblock);
+            }
+            catch {
+                // Not called during component initialization, so removing the blocker is up to the caller.
+            }
+        }
+        return unblock;
+    }
+}
@@ -1,10 +1,11 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
 import { LocationLite } from "./LocationLite.svelte.js";
-import type { ExtendedRoutingOptions, Hash, HistoryApi, PreserveQuery } from "../types.js";
-import { setupBrowserMocks, ALL_HASHES } from "$test/test-utils.js";
+import type { ExtendedRoutingOptions, Hash, HistoryApi, NavigationDirection, PreserveQuery } from "../types.js";
+import { setupBrowserMocks, ALL_HASHES, stubViewTransitions } from "$test/test-utils.js";
 import { SvelteURL } from "svelte/reactivity";
 import { setLocation } from "./Location.js";
 import { resetRoutingOptions, setRoutingOptions } from "./options.js";
+import { resetViewTransitions, setViewTransitions } from "./viewTransitions.js";
 
 describe("LocationLite", () => {
     const initialUrl = "http://example.com/";
@@ -67,14 +68,275 @@ describe("LocationLite", () => {
         });
     });
     describe("on", () => {
-        test("Should throw an error when called.", () => {
+        test.each([
+            'beforeNavigate' as const,
+            'navigationCancelled' as const,
+        ])("Should throw an error when called for the '%s' event.", (event) => {
             // Act.
-            const act = () => location.on('beforeNavigate', () => { });
+            const act = () => location.on(event as 'beforeNavigate', () => { });
 
             // Assert.
             expect(act).toThrowError();
         });
     });
+    describe("block", () => {
+        test("Should throw an error.", () => {
+            // Act.
+            const act = () => location.block();
+
+            // Assert.
+            expect(act).toThrowError();
+        });
+    });
+    describe("Navigation lifecycle events", () => {
+        afterEach(() => {
+            resetRoutingOptions();
+        });
+
+        test("Should raise navigationStart, afterNavigate and navigationEnd, in that order, when navigating.", () => {
+            // Arrange.
+            const events: [string, any][] = [];
+            location.on('navigationStart', (e) => events.push(['navigationStart', e]));
+            location.on('afterNavigate', (e) => events.push(['afterNavigate', { ...e, href: location.url.href }]));
+            location.on('navigationEnd', (e) => events.push(['navigationEnd', e]));
+            const expectedEvent = { type: 'push', previousUrl: initialUrl, url: 'http://example.com/new/path' };
+
+            // Act.
+            location.navigate('/new/path');
+
+            // Assert.
+            expect(events).toEqual([
+                ['navigationStart', expectedEvent],
+                ['afterNavigate', { ...expectedEvent, universes: [false], direction: 'forward', href: expectedEvent.url }],
+                ['navigationEnd', { ...expectedEvent, completed: true }],
+            ]);
+        });
+
+        test("Should report the replace navigation type when replacing.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            location.on('afterNavigate', callback);
+
+            // Act.
+            location.goTo('/new/path', { replace: true });
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'replace' }));
+        });
+
+        test.each<{ hash: Hash; hashMode: 'single' | 'multi'; expectedUniverses: Hash[] }>([
+            { hash: ALL_HASHES.path, hashMode: 'single', expectedUniverses: [false] },
+            { hash: ALL_HASHES.single, hashMode: 'single', expectedUniverses: [true] },
+            { hash: ALL_HASHES.multi, hashMode: 'multi', expectedUniverses: [ALL_HASHES.multi] },
+        ])("Should report $expectedUniverses as the changed universes when navigating with hash $hash.", ({ hash, hashMode, expectedUniverses }) => {
+            // Arrange.
+            setRoutingOptions({ hashMode });
+            const callback = vi.fn();
+            location.on('afterNavigate', callback);
+
+            // Act.
+            location.navigate('/new/path', { hash, state: { some: 'data' } });
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ universes: expectedUniverses }));
+        });
+
+        test("Should report no changed universes when only the query string changes.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            location.on('afterNavigate', callback);
+
+            // Act.
+            location.goTo('?some=value');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ universes: [] }));
+        });
+
+        test.each<{ text: string; index: number; expectedDirection: NavigationDirection }>([
+            { text: 'back', index: 0, expectedDirection: 'back' },
+            { text: 'forward', index: 2, expectedDirection: 'forward' },
+        ])("Should report the '$expectedDirection' direction when the history is traversed $text.", ({ index, expectedDirection }) => {
+            // Arrange.
+            location.navigate('/new/path');
+            const callback = vi.fn();
+            location.on('afterNavigate', callback);
+
+            // Act.
+            browserMocks.simulateHistoryChange({ path: undefined, hash: {}, index }, 'http://example.com/other');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'pop', direction: expectedDirection }));
+        });
+
+        test("Should update the URL inside a view transition when view transitions are on.", async () => {
+            // Arrange.
+            setViewTransitions(true);
+            const viewTransitions = stubViewTransitions();
+            const callback = vi.fn();
+            location.on('navigationEnd', callback);
+
+            // Act.
+            location.navigate('/new/path');
+            const urlBeforeTransition = location.url.href;
+            await viewTransitions.runUpdates();
+            viewTransitions.cleanup();
+            resetViewTransitions();
+
+            // Assert.
+            expect(urlBeforeTransition).toBe(initialUrl);
+            expect(location.url.href).toBe('http://example.com/new/path');
+            expect(callback).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({ completed: true }));
+        });
+
+        test("Should raise all three events with type 'pop' when the history is traversed.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            location.on('navigationStart', (e) => callback('navigationStart', e));
+            location.on('afterNavigate', (e) => callback('afterNavigate', e));
+            location.on('navigationEnd', (e) => callback('navigationEnd', e));
+            const newUrl = 'http://example.com/other';
+
+            // Act.
+            browserMocks.simulateHistoryChange({ path: 'other', hash: {} }, newUrl);
+
+            // Assert.
+            expect(callback.mock.calls).toEqual([
+                ['navigationStart', { type: 'pop', previousUrl: initialUrl, url: newUrl }],
+                ['afterNavigate', { type: 'pop', previousUrl: initialUrl, url: newUrl, universes: [false], direction: 'none' }],
+                ['navigationEnd', { type: 'pop', previousUrl: initialUrl, url: newUrl, completed: true }],
+            ]);
+        });
+
+        test("Should raise afterNavigate with type 'hashchange' once when the hash changes by fragment navigation.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            location.on('afterNavigate', callback);
+            const newUrl = 'http://example.com/#/some/path';
+
+            // Act.
+            browserMocks.simulateHistoryChange(null, newUrl);
+            browserMocks.triggerHashChange();
+
+            // Assert.
+            expect(callback).toHaveBeenCalledExactlyOnceWith({
+                type: 'hashchange',
+                previousUrl: initialUrl,
+                url: newUrl,
+                universes: [true],
+                direction: 'forward',
+            });
+        });
+
+        test("Should raise afterNavigate for HistoryApi objects without navigated notifications.", () => {
+            // Arrange.
+            const historyApi: HistoryApi = {
+                url: new SvelteURL(initialUrl),
+                state: { path: undefined, hash: {} },
+                pushState: vi.fn((_state, _unused, url) => historyApi.url.href = url),
+                replaceState: vi.fn(),
+                dispose: vi.fn(),
+                length: 0,
+                scrollRestoration: 'auto' as const,
+                back: vi.fn(),
+                forward: vi.fn(),
+                go: vi.fn(),
+            };
+            const customLocation = new LocationLite(historyApi);
+            const callback = vi.fn();
+            customLocation.on('afterNavigate', callback);
+
+            // Act.
+            customLocation.goTo('http://example.com/new');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+                type: 'push',
+                url: 'http://example.com/new',
+            }));
+
+            // Cleanup.
+            customLocation.dispose();
+        });
+
+        test("Should not raise events after the event handler is removed.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            const unsub = location.on('afterNavigate', callback);
+
+            // Act.
+            unsub();
+            location.navigate('/new/path');
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+        });
+    });
+    describe("History entries", () => {
+        test("Should report no entries to go back or forward to in the entry the user landed in.", () => {
+            // Assert.
+            expect(location.index).toBe(0);
+            expect(location.canGoBack).toBe(false);
+            expect(location.canGoForward).toBe(false);
+            expect(location.entries).toEqual([{ index: 0, key: expect.any(String), url: initialUrl }]);
+        });
+
+        test("Should add an entry when pushing, and allow going back.", () => {
+            // Act.
+            location.navigate('/a');
+
+            // Assert.
+            expect(location.index).toBe(1);
+            expect(location.canGoBack).toBe(true);
+            expect(location.canGoForward).toBe(false);
+            expect(location.entries.map(e => e.url)).toEqual([initialUrl, 'http://example.com/a']);
+            expect(location.entries[0].key).not.toBe(location.entries[1].key);
+        });
+
+        test("Should update the current entry when replacing.", () => {
+            // Arrange.
+            const key = location.entries[0].key;
+
+            // Act.
+            location.navigate('/a', { replace: true });
+
+            // Assert.
+            expect(location.index).toBe(0);
+            expect(location.entries).toEqual([{ index: 0, key, url: 'http://example.com/a' }]);
+        });
+
+        test("Should keep the forward entries when the history is traversed back.", () => {
+            // Arrange.
+            location.navigate('/a');
+            const stateA = browserMocks.history.state;
+            location.navigate('/b');
+
+            // Act.
+            browserMocks.simulateHistoryChange(stateA, 'http://example.com/a');
+
+            // Assert.
+            expect(location.index).toBe(1);
+            expect(location.canGoBack).toBe(true);
+            expect(location.canGoForward).toBe(true);
+            expect(location.entries.map(e => e.url)).toEqual([initialUrl, 'http://example.com/a', 'http://example.com/b']);
+        });
+
+        test("Should discard the forward entries when pushing after traversing back.", () => {
+            // Arrange.
+            location.navigate('/a');
+            const stateA = browserMocks.history.state;
+            location.navigate('/b');
+            browserMocks.simulateHistoryChange(stateA, 'http://example.com/a');
+
+            // Act.
+            location.navigate('/c');
+
+            // Assert.
+            expect(location.index).toBe(2);
+            expect(location.canGoForward).toBe(false);
+            expect(location.entries.map(e => e.url)).toEqual([initialUrl, 'http://example.com/a', 'http://example.com/c']);
+        });
+    });
     describe("getState", () => {
         test.each<{ hash: Hash; expectedState: any; }>([
             {
@@ -1,4 +1,22 @@
-import type { BeforeNavigateEvent, Hash, Location, GoToOptions, NavigateOptions, NavigationCancelledEvent, State, HistoryApi } from "../types.js";
+import type {
+    AfterNavigateEvent,
+    BeforeNavigateEvent,
+    Events,
+    Hash,
+    HistoryEntry,
+    Location,
+    GoToOptions,
+    NavigateOptions,
+    NavigationCancelledEvent,
+    NavigationDirection,
+    NavigationEndEvent,
+    NavigationKind,
+    NavigationStartEvent,
+    State,
+    BlockOptions,
+    HistoryApi,
+    FullModeHistoryApi
+} from "../types.js";
 import { getCompleteStateKey } from "./Location.js";
 import { StockHistoryApi } from "./StockHistoryApi.svelte.js";
 import { routingOptions } from "./options.js";
@@ -7,6 +25,96 @@ import { calculateHref } from "./calculateHref.js";
 import { calculateState } from "./calculateState.js";
 import { preserveQueryInUrl } from "./preserveQuery.js";
 import { assertAllowedRoutingMode } from "$lib/utils.js";
+import { NavigationEventHub, type NavigationEventHandler } from "./NavigationEventHub.js";
+import { runNavigationUpdate } from "./viewTransitions.js";
+import { untrack } from "svelte";
+
+/**
+ * Defines the URL and state recorded by the location object after every navigation.
+ */
+type NavigationSnapshot = {
+    url: string;
+    state: State | undefined;
+};
+
+/**
+ * Defines the data of a navigation started by the location object that is yet to end.
+ */
+type PendingNavigation = {
+    /**
+     * The URL given to the HistoryApi object.
+     */
+    url: string;
+    /**
+     * The event object used to raise the `navigationStart` event.
+     */
+    event: NavigationStartEvent;
+};
+
+function isFullModeHistoryApi(historyApi: HistoryApi): historyApi is FullModeHistoryApi {
+    return typeof (historyApi as FullModeHistoryApi).on === 'function';
+}
+
+function parseHashPaths(hash: string) {
+    if (routingOptions.hashMode === 'single') {
+        return { single: hash.substring(1) };
+    }
+    const result = {} as Record<string, string>;
+    const paths = hash.substring(1).split(';');
+    for (let rawPath of paths) {
+        const [id, path] = rawPath.split('=');
+        if (!id || !path) {
+            continue;
+        }
+        result[id] = path;
+    }
+    return result;
+}
+
+function isSame(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Determines which routing universes changed between the given snapshots.
+ * @returns The hash values of the routing universes whose path or state changed.
+ */
+function changedUniverses(previous: NavigationSnapshot, current: NavigationSnapshot): Hash[] {
+    const previousUrl = new URL(previous.url);
+    const currentUrl = new URL(current.url);
+    const result: Hash[] = [];
+    if (previousUrl.pathname !== currentUrl.pathname || !isSame(previous.state?.path, current.state?.path)) {
+        result.push(false);
+    }
+    const previousPaths = parseHashPaths(previousUrl.hash);
+    const currentPaths = parseHashPaths(currentUrl.hash);
+    const ids = new Set([
+        ...Object.keys(previousPaths),
+        ...Object.keys(currentPaths),
+        ...Object.keys(previous.state?.hash ?? {}),
+        ...Object.keys(current.state?.hash ?? {}),
+    ]);
+    for (let id of ids) {
+        if (previousPaths[id] !== currentPaths[id] || !isSame(previous.state?.hash[id], current.state?.hash[id])) {
+            result.push(routingOptions.hashMode === 'single' ? true : id);
+        }
+    }
+    return result;
+}
+
+/**
+ * Determines the direction of navigation between the given snapshots by comparing the indexes of their history 
+ * entries.
+ * @returns The direction of navigation.
+ */
+function navigationDirection(type: NavigationKind, previous: NavigationSnapshot, current: NavigationSnapshot): NavigationDirection {
+    const delta = (current.state?.index ?? 0) - (previous.state?.index ?? 0);
+    if (delta !== 0) {
+        return delta > 0 ? 'forward' : 'back';
+    }
+    // History API objects that don't index their entries still create a new entry when pushing.
+    return type === 'push' ? 'forward' : 'none';
+}
 
 /**
  * A lite version of the location object.  It does not support event listeners or state-setting call interceptions, 
@@ -15,29 +123,107 @@ import { assertAllowedRoutingMode } from "$lib/utils.js";
 export class LocationLite implements Location {
     #historyApi: HistoryApi;
     
-    hashPaths = $derived.by(() => {
-        if (routingOptions.hashMode === 'single') {
-            return { single: this.#historyApi.url.hash.substring(1) };
-        }
-        const result = {} as Record<string, string>;
-        const paths = this.#historyApi.url.hash.substring(1).split(';');
-        for (let rawPath of paths) {
-            const [id, path] = rawPath.split('=');
-            if (!id || !path) {
-                continue;
-            }
-            result[id] = path;
-        }
-        return result;
-    });
+    #events = new NavigationEventHub();
+    #current: NavigationSnapshot;
+    #pending: PendingNavigation[] = [];
+    #canHoldNavigation = false;
+    #cleanupFunctions: (() => void)[] = [];
+    #entries = $state<HistoryEntry[]>([]);
+
+    hashPaths = $derived.by(() => parseHashPaths(this.#historyApi.url.hash));
+    index = $derived.by(() => this.#historyApi.state?.index ?? 0);
+    canGoBack = $derived(this.index > 0);
+    canGoForward = $derived(this.#entries.some(e => e.index > this.index));
 
     constructor(historyApi?: HistoryApi) {
         this.#historyApi = historyApi ?? new StockHistoryApi();
+        this.#current = this.#takeSnapshot();
+        this.#recordEntry(false);
+        const unsubNavigated = this.#historyApi.onNavigated?.(this.#handleNavigated);
+        if (unsubNavigated) {
+            this.#cleanupFunctions.push(unsubNavigated);
+            // Navigation held by asynchronous beforeNavigate handlers ends when it is carried out or cancelled.
+            if (isFullModeHistoryApi(this.#historyApi)) {
+                this.#canHoldNavigation = true;
+                this.#cleanupFunctions.push(
+                    this.#historyApi.on('navigationCancelled', this.#handleNavigationCancelled)
+                );
+            }
+        }
+    }
+
+    #takeSnapshot(): NavigationSnapshot {
+        return {
+            url: this.#historyApi.url.href,
+            state: $state.snapshot(this.#historyApi.state),
+        };
+    }
+
+    /**
+     * Records the current history entry in the list of visited entries.
+     * @param isNew Whether the entry was just created, in which case it replaces all entries from its position on.
+     */
+    #recordEntry(isNew: boolean) {
+        // Navigation may be triggered from within effects, which must not depend on the list.
+        untrack(() => {
+            const entry: HistoryEntry = {
+                index: this.#historyApi.state?.index ?? 0,
+                key: this.#historyApi.state?.key,
+                url: this.#historyApi.url.href,
+            };
+            const entries = this.#entries.filter(e => isNew ? e.index < entry.index : e.index !== entry.index);
+            entries.push(entry);
+            this.#entries = entries.sort((a, b) => a.index - b.index);
+        });
+    }
+
+    #takePending(predicate: (pending: PendingNavigation) => boolean) {
+        const index = this.#pending.findIndex(predicate);
+        return index < 0 ? undefined : this.#pending.splice(index, 1)[0];
+    }
+
+    #handleNavigated = (type: NavigationKind) => {
+        const previous = this.#current;
+        const current = this.#takeSnapshot();
+        const pending = this.#takePending(p => p.event.type === type && p.event.url === current.url);
+        if (!pending && previous.url === current.url && isSame(previous.state, current.state)) {
+            // Already reported.
+            return;
+        }
+        this.#current = current;
+        this.#recordEntry(type !== 'pop' && (current.state?.index ?? 0) > (previous.state?.index ?? 0));
+        const event: NavigationStartEvent = { type, previousUrl: previous.url, url: current.url };
+        if (!pending) {
+            this.#events.raise('navigationStart', event);
+        }
+        this.#events.raise('afterNavigate', {
+            ...event,
+            universes: changedUniverses(previous, current),
+            direction: navigationDirection(type, previous, current),
+        });
+        this.#events.raise('navigationEnd', { ...(pending?.event ?? event), completed: true });
     }
 
-    on(event: "beforeNavigate", callback: (event: BeforeNavigateEvent) => void): () => void;
+    #handleNavigationCancelled = (cancelledEvent: NavigationCancelledEvent) => {
+        const pending = this.#takePending(p => p.url === cancelledEvent.url && p.event.type === cancelledEvent.method);
+        if (pending) {
+            this.#events.raise('navigationEnd', { ...pending.event, completed: false });
+        }
+    }
+
+    on(event: "beforeNavigate", callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
     on(event: "navigationCancelled", callback: (event: NavigationCancelledEvent) => void): () => void;
-    on(_event: unknown, _callback: unknown): (() => void) | (() => void) {
+    on(event: "navigationStart", callback: (event: NavigationStartEvent) => void): () => void;
+    on(event: "afterNavigate", callback: (event: AfterNavigateEvent) => void): () => void;
+    on(event: "navigationEnd", callback: (event: NavigationEndEvent) => void): () => void;
+    on<K extends Events>(event: K, callback: NavigationEventHandler<K>): () => void {
+        if (event === 'beforeNavigate' || event === 'navigationCancelled') {
+            throw new Error("This feature is only available when initializing the routing library with the full option.");
+        }
+        return this.#events.on(event, callback);
+    }
+
+    block(_options?: BlockOptions): () => void {
         throw new Error("This feature is only available when initializing the routing library with the full option.");
     }
 
@@ -45,6 +231,10 @@ export class LocationLite implements Location {
         return this.#historyApi.url;
     }
 
+    get entries(): readonly HistoryEntry[] {
+        return this.#entries;
+    }
+
     getState(hash: Hash) {
         if (typeof hash === 'string') {
             return this.#historyApi.state?.hash[hash];
@@ -72,7 +262,25 @@ export class LocationLite implements Location {
             // Shallow routing.
             url = this.url.href;
         }
-        this.#historyApi[replace ? 'replaceState' : 'pushState'](state, '', url);
+        const type = replace ? 'replace' : 'push';
+        const event: NavigationStartEvent = { type, previousUrl: this.url.href, url: new URL(url, this.url).href };
+        this.#events.raise('navigationStart', event);
+        const pending: PendingNavigation = { url, event };
+        this.#pending.push(pending);
+        runNavigationUpdate(() => {
+            this.#current = this.#takeSnapshot();
+            try {
+                this.#historyApi[replace ? 'replaceState' : 'pushState'](state, '', url);
+                if (!this.#historyApi.onNavigated) {
+                    this.#handleNavigated(type);
+                }
+            }
+            finally {
+                if (!this.#canHoldNavigation && this.#takePending(p => p === pending)) {
+                    this.#events.raise('navigationEnd', { ...event, completed: false });
+                }
+            }
+        }, replace ? 'none' : 'forward');
     }
 
     goTo(url: string, options?: GoToOptions): void {
@@ -100,6 +308,10 @@ export class LocationLite implements Location {
     }
 
     dispose() {
+        this.#cleanupFunctions.forEach(cleanup => cleanup());
+        this.#cleanupFunctions = [];
+        this.#pending = [];
+        this.#events.clear();
         this.#historyApi.dispose();
     }
 }
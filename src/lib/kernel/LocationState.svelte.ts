@@ -1,7 +1,14 @@
 import { SvelteURL } from "svelte/reactivity";
 import { isConformantState } from "./isConformantState.js";
 import { logger } from "./Logger.js";
-import type { State } from "../types.js";
+import type { NavigationKind, State } from "../types.js";
+
+/**
+ * Creates a random key that identifies a history entry.
+ */
+export function createEntryKey() {
+    return Math.random().toString(36).substring(2, 10);
+}
 
 /**
  * Helper class used to manage the reactive data of Location implementations.
@@ -10,6 +17,7 @@ import type { State } from "../types.js";
 export class LocationState {
     url;
     state;
+    #navigatedCallbacks = new Set<(type: NavigationKind) => void>();
 
     constructor(initialUrl?: string, initialState?: State) {
         // Initialize URL
@@ -36,4 +44,36 @@ export class LocationState {
         
         return validState ? state : (defaultState ?? { path: undefined, hash: {} });
     }
+
+    /**
+     * Calculates the position and key of the history entry created or replaced by a push or replace operation.
+     * @param method The navigation method.
+     * @returns An object with the `index` and `key` values to store in the new entry's state.
+     */
+    nextEntry(method: 'push' | 'replace'): Required<Pick<State, 'index' | 'key'>> {
+        if (method === 'push') {
+            return { index: (this.state.index ?? 0) + 1, key: createEntryKey() };
+        }
+        return { index: this.state.index ?? 0, key: this.state.key ?? createEntryKey() };
+    }
+
+    /**
+     * Subscribes to the notification raised every time navigation updates the URL and state.
+     * @param callback The callback to invoke after the URL and state have been updated.
+     * @returns A function that removes the subscription.
+     */
+    onNavigated(callback: (type: NavigationKind) => void): () => void {
+        this.#navigatedCallbacks.add(callback);
+        return () => this.#navigatedCallbacks.delete(callback);
+    }
+
+    /**
+     * Raises the notification that navigation has updated the URL and state.
+     * @param type The type of navigation.
+     */
+    raiseNavigated(type: NavigationKind) {
+        for (let callback of this.#navigatedCallbacks) {
+            callback(type);
+        }
+    }
 }
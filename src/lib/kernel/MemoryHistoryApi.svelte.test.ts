@@ -0,0 +1,315 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryHistoryApi } from "./MemoryHistoryApi.svelte.js";
+import { LocationLite } from "./LocationLite.svelte.js";
+import { LocationFull } from "./LocationFull.svelte.js";
+import type { BeforeNavigateEvent, State } from "../types.js";
+
+/**
+ * Creates the expected history entry data of the entry at the given position.
+ */
+function entry(index: number) {
+    return { index, key: expect.any(String) };
+}
+
+describe("MemoryHistoryApi", () => {
+    const initialUrl = "http://example.com/";
+    let historyApi: MemoryHistoryApi;
+
+    beforeEach(() => {
+        historyApi = new MemoryHistoryApi(initialUrl);
+    });
+
+    afterEach(() => {
+        historyApi.dispose();
+    });
+
+    describe("constructor", () => {
+        test("Should create a new instance with the expected default values.", () => {
+            // Act.
+            const defaultApi = new MemoryHistoryApi();
+
+            // Assert.
+            expect(defaultApi.url.href).toBe('http://localhost/');
+            expect(defaultApi.state).toEqual({ path: undefined, hash: {}, ...entry(0) });
+            expect(defaultApi.length).toBe(1);
+        });
+
+        test("Should accept initial URL and state parameters.", () => {
+            // Arrange.
+            const customState: State = { path: { custom: "value" }, hash: { single: 1 } };
+
+            // Act.
+            const customApi = new MemoryHistoryApi("http://example.com/custom", customState);
+
+            // Assert.
+            expect(customApi.url.href).toBe("http://example.com/custom");
+            expect(customApi.state).toEqual({ ...customState, ...entry(0) });
+        });
+
+        test("Should not touch the environment's History API.", () => {
+            // Arrange.
+            const pushStateSpy = vi.spyOn(globalThis.window.history, 'pushState');
+            const hrefBefore = globalThis.window.location.href;
+
+            // Act.
+            historyApi.pushState({ path: 1, hash: {} }, '', '/other');
+
+            // Assert.
+            expect(pushStateSpy).not.toHaveBeenCalled();
+            expect(globalThis.window.location.href).toBe(hrefBefore);
+            pushStateSpy.mockRestore();
+        });
+    });
+
+    describe("pushState", () => {
+        test("Should add a new entry and update the URL and state.", () => {
+            // Arrange.
+            const state: State = { path: 1, hash: {} };
+
+            // Act.
+            historyApi.pushState(state, '', '/other');
+
+            // Assert.
+            expect(historyApi.url.href).toBe("http://example.com/other");
+            expect(historyApi.state).toEqual({ ...state, ...entry(1) });
+            expect(historyApi.length).toBe(2);
+        });
+
+        test("Should discard the forward entries.", () => {
+            // Arrange.
+            historyApi.pushState(null, '', '/a');
+            historyApi.pushState(null, '', '/b');
+            historyApi.back();
+
+            // Act.
+            historyApi.pushState(null, '', '/c');
+
+            // Assert.
+            expect(historyApi.length).toBe(3);
+            historyApi.forward();
+            expect(historyApi.url.pathname).toBe('/c');
+        });
+
+        test("Should reset non-conformant state to a clean state.", () => {
+            // Act.
+            historyApi.pushState({ invalid: true }, '', '/other');
+
+            // Assert.
+            expect(historyApi.state).toEqual({ path: undefined, hash: {}, ...entry(1) });
+        });
+    });
+
+    describe("replaceState", () => {
+        test("Should replace the current entry without adding a new one.", () => {
+            // Arrange.
+            const state: State = { path: 2, hash: {} };
+
+            // Act.
+            historyApi.replaceState(state, '', '/other');
+
+            // Assert.
+            expect(historyApi.url.href).toBe("http://example.com/other");
+            expect(historyApi.state).toEqual({ ...state, ...entry(0) });
+            expect(historyApi.length).toBe(1);
+        });
+
+        test("Should keep the key of the replaced entry.", () => {
+            // Arrange.
+            const key = historyApi.state.key;
+
+            // Act.
+            historyApi.replaceState({ path: 2, hash: {} }, '', '/other');
+
+            // Assert.
+            expect(historyApi.state.key).toBe(key);
+        });
+    });
+
+    describe("Traversal", () => {
+        const stateA: State = { path: 'a', hash: {} };
+        const stateB: State = { path: 'b', hash: { single: 'b' } };
+
+        beforeEach(() => {
+            historyApi.pushState(stateA, '', '/a');
+            historyApi.pushState(stateB, '', '/b');
+        });
+
+        test("Should restore the previous entry's URL and state on back().", () => {
+            // Act.
+            historyApi.back();
+
+            // Assert.
+            expect(historyApi.url.pathname).toBe('/a');
+            expect(historyApi.state).toEqual({ ...stateA, ...entry(1) });
+        });
+
+        test("Should restore the next entry's URL and state on forward().", () => {
+            // Arrange.
+            historyApi.back();
+
+            // Act.
+            historyApi.forward();
+
+            // Assert.
+            expect(historyApi.url.pathname).toBe('/b');
+            expect(historyApi.state).toEqual({ ...stateB, ...entry(2) });
+        });
+
+        test("Should move by the given delta on go().", () => {
+            // Act.
+            historyApi.go(-2);
+
+            // Assert.
+            expect(historyApi.url.href).toBe(initialUrl);
+            expect(historyApi.state).toEqual({ path: undefined, hash: {}, ...entry(0) });
+        });
+
+        test.each([
+            -3, 1, 0
+        ])("Should do nothing when calling go(%d) would land outside the entry stack.", (delta) => {
+            // Act.
+            historyApi.go(delta);
+
+            // Assert.
+            expect(historyApi.url.pathname).toBe('/b');
+            expect(historyApi.state).toEqual({ ...stateB, ...entry(2) });
+        });
+
+        test("Should not be affected by mutations done to the current state.", () => {
+            // Arrange.
+            historyApi.back();
+
+            // Act.
+            historyApi.state.path = 'mutated';
+            historyApi.forward();
+            historyApi.back();
+
+            // Assert.
+            expect(historyApi.state).toEqual({ ...stateA, ...entry(1) });
+        });
+
+        test("Should not move to the entry when a beforeNavigate handler cancels the traversal.", () => {
+            // Arrange.
+            const callback = vi.fn((e: BeforeNavigateEvent) => e.cancel());
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            historyApi.back();
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+                url: 'http://example.com/a',
+                state: { ...stateA, ...entry(1) },
+                method: 'pop'
+            }));
+            expect(historyApi.url.pathname).toBe('/b');
+            expect(historyApi.state).toEqual({ ...stateB, ...entry(2) });
+        });
+
+        test("Should raise the navigated notification with type 'pop' after moving to another entry.", () => {
+            // Arrange.
+            const callback = vi.fn(() => expect(historyApi.url.pathname).toBe('/a'));
+            historyApi.onNavigated(callback);
+
+            // Act.
+            historyApi.back();
+
+            // Assert.
+            expect(callback).toHaveBeenCalledExactlyOnceWith('pop');
+        });
+    });
+
+    describe("Event system", () => {
+        test("Should raise 'beforeNavigate' on pushState and replaceState.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            historyApi.pushState(null, '', '/a');
+            historyApi.replaceState(null, '', '/b');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledTimes(2);
+            expect(callback.mock.calls[0][0].method).toBe('push');
+            expect(callback.mock.calls[1][0].method).toBe('replace');
+        });
+
+        test("Should not navigate when the navigation is cancelled.", () => {
+            // Arrange.
+            const cancelledCallback = vi.fn();
+            historyApi.on('beforeNavigate', (e) => e.cancel('nope'));
+            historyApi.on('navigationCancelled', cancelledCallback);
+
+            // Act.
+            historyApi.pushState(null, '', '/a');
+
+            // Assert.
+            expect(historyApi.url.href).toBe(initialUrl);
+            expect(historyApi.length).toBe(1);
+            expect(cancelledCallback).toHaveBeenCalledWith(expect.objectContaining({ cause: 'nope' }));
+        });
+
+        test("Should raise the navigated notification on pushState and replaceState, but not when cancelled.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.onNavigated(callback);
+
+            // Act.
+            historyApi.pushState(null, '', '/a');
+            historyApi.replaceState(null, '', '/b');
+            historyApi.on('beforeNavigate', (e) => e.cancel());
+            historyApi.pushState(null, '', '/c');
+
+            // Assert.
+            expect(callback.mock.calls).toEqual([['push'], ['replace']]);
+        });
+
+        test("Should clear event subscriptions on dispose.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            historyApi.dispose();
+            historyApi.pushState(null, '', '/a');
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Location integration", () => {
+        test("Should work as the HistoryApi of a LocationLite object.", () => {
+            // Arrange.
+            const location = new LocationLite(historyApi);
+
+            // Act.
+            location.goTo('/a', { state: { path: 'a', hash: {} } });
+            location.goTo('/b');
+            location.back();
+
+            // Assert.
+            expect(location.url.pathname).toBe('/a');
+            expect(location.getState(false)).toBe('a');
+
+            // Cleanup.
+            location.dispose();
+        });
+
+        test("Should work as the HistoryApi of a LocationFull object.", () => {
+            // Arrange.
+            const location = new LocationFull(historyApi);
+            location.on('beforeNavigate', (e) => e.cancel());
+
+            // Act.
+            location.goTo('/a');
+
+            // Assert.
+            expect(location.url.href).toBe(initialUrl);
+
+            // Cleanup.
+            location.dispose();
+        });
+    });
+});
@@ -0,0 +1,113 @@
+import type { BeforeNavigateEvent, NavigationCancelledEvent, State, FullModeHistoryApi } from "../types.js";
+import { LocationState } from "./LocationState.svelte.js";
+import { NavigationEventHub, type NavigationEventHandler } from "./NavigationEventHub.js";
+
+/**
+ * Defines the shape of the entries kept by the `MemoryHistoryApi` class.
+ */
+type MemoryHistoryEntry = {
+    url: string;
+    state: State;
+};
+
+/**
+ * HistoryApi implementation that keeps its own stack of history entries in memory, never touching the environment's
+ * URL or History API.
+ *
+ * Use it to run routers in places that must not modify the address bar (embedded widgets, for example), in
+ * server-side rendering, or in unit tests that should not depend on the environment's History API.
+ *
+ * It supports the `beforeNavigate` and `navigationCancelled` events, so it can be used with both `LocationLite` and
+ * `LocationFull`.
+ */
+export class MemoryHistoryApi extends LocationState implements FullModeHistoryApi {
+    #entries: MemoryHistoryEntry[];
+    #index = 0;
+    #events = new NavigationEventHub();
+    scrollRestoration: ScrollRestoration = 'auto';
+
+    /**
+     * Initializes a new instance of this class.
+     * @param initialUrl URL of the initial history entry.  If not specified, `http://localhost/` is used.
+     * @param initialState State of the initial history entry.
+     */
+    constructor(initialUrl?: string, initialState?: State) {
+        super(initialUrl ?? 'http://localhost/', initialState ?? { path: undefined, hash: {} });
+        this.state = { ...this.state, ...this.nextEntry('replace') };
+        this.#entries = [{ url: this.url.href, state: $state.snapshot(this.state) }];
+    }
+
+    get length(): number {
+        return this.#entries.length;
+    }
+
+    back(): void {
+        this.go(-1);
+    }
+
+    forward(): void {
+        this.go(1);
+    }
+
+    /**
+     * Moves to the history entry found at the given position relative to the current entry.  The URL and state are
+     * updated as if a `popstate` event had occurred.
+     *
+     * The move is reported to `beforeNavigate` handlers with the `pop` method, and it doesn't happen if they cancel 
+     * it.  Nothing happens if there is no history entry at the given position.
+     * @param delta Relative position of the history entry to move to.
+     */
+    go(delta?: number): void {
+        const newIndex = this.#index + (delta ?? 0);
+        if (!delta || newIndex < 0 || newIndex >= this.#entries.length) {
+            return;
+        }
+        const entry = this.#entries[newIndex];
+        this.#events.raiseBeforeNavigate(entry.url, $state.snapshot(entry.state), 'pop', () => {
+            this.#index = newIndex;
+            this.url.href = entry.url;
+            this.state = entry.state;
+            this.raiseNavigated('pop');
+        });
+    }
+
+    pushState(data: any, unused: string, url?: string | URL | null): void {
+        this.#navigate('push', data, url);
+    }
+
+    replaceState(data: any, unused: string, url?: string | URL | null): void {
+        this.#navigate('replace', data, url);
+    }
+
+    #navigate(method: 'push' | 'replace', data: any, url?: string | URL | null) {
+        this.#events.raiseBeforeNavigate(url?.toString() || '', data, method, (event) => {
+            const normalizedState = { ...this.normalizeState(event.state), ...this.nextEntry(method) };
+            const entry: MemoryHistoryEntry = {
+                url: new URL(url ?? '', this.url).href,
+                state: $state.snapshot(normalizedState),
+            };
+            if (method === 'push') {
+                this.#entries.splice(++this.#index, Infinity, entry);
+            }
+            else {
+                this.#entries[this.#index] = entry;
+            }
+            this.url.href = entry.url;
+            this.state = normalizedState;
+            this.raiseNavigated(method);
+        });
+    }
+
+    /**
+     * Subscribe to navigation events.
+     */
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
+    on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
+    on<K extends 'beforeNavigate' | 'navigationCancelled'>(event: K, callback: NavigationEventHandler<K>): () => void {
+        return this.#events.on(event, callback);
+    }
+
+    dispose(): void {
+        this.#events.clear();
+    }
+}
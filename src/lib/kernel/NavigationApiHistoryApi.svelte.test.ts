@@ -0,0 +1,327 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { NavigationApiHistoryApi } from "./NavigationApiHistoryApi.svelte.js";
+import type { State } from "../types.js";
+import { setupBrowserMocks } from "$test/test-utils.js";
+
+/**
+ * Local stand-in for the Navigation API's `navigation` object.
+ */
+class NavigationStub extends EventTarget {
+    #entries = [{ key: 'key-0' }];
+    currentEntry = this.#entries[0];
+
+    entries() {
+        return this.#entries;
+    }
+
+    navigate = vi.fn();
+    traverseTo = vi.fn();
+
+    fireNavigate(navigationType: NavigationType, url: string, cancelable = true) {
+        const event = Object.assign(new Event('navigate', { cancelable }), {
+            navigationType,
+            destination: { url, key: 'destination-key', getState: () => 'destination-state' }
+        });
+        this.dispatchEvent(event);
+        return event;
+    }
+
+    changeEntry(key: string, navigationType?: NavigationType) {
+        this.currentEntry = { key };
+        this.#entries.push(this.currentEntry);
+        this.dispatchEvent(Object.assign(new Event('currententrychange'), { navigationType }));
+    }
+}
+
+describe("NavigationApiHistoryApi", () => {
+    const initialUrl = "http://example.com/";
+    let historyApi: NavigationApiHistoryApi;
+    let navigation: NavigationStub;
+    let browserMocks: ReturnType<typeof setupBrowserMocks>;
+    let historyMocks: Pick<ReturnType<typeof setupBrowserMocks>['history'], 'pushState' | 'replaceState'>;
+
+    beforeEach(() => {
+        browserMocks = setupBrowserMocks(initialUrl);
+        // The instance wraps these, so the mocks are kept before creating it.
+        historyMocks = { pushState: browserMocks.history.pushState, replaceState: browserMocks.history.replaceState };
+        navigation = new NavigationStub();
+        // @ts-expect-error Stubbing the Navigation API for testing.
+        browserMocks.window.navigation = navigation;
+        historyApi = new NavigationApiHistoryApi();
+    });
+
+    afterEach(() => {
+        historyApi.dispose();
+        browserMocks.cleanup();
+    });
+
+    describe("constructor", () => {
+        test("Should throw an error if the Navigation API is not available.", () => {
+            // Arrange.
+            // @ts-expect-error Stubbing the Navigation API for testing.
+            delete browserMocks.window.navigation;
+
+            // Act.
+            const act = () => new NavigationApiHistoryApi();
+
+            // Assert.
+            expect(act).toThrowError();
+        });
+
+        test("Should not replace window.history.", () => {
+            // Assert.
+            expect(globalThis.window.history).toBe(browserMocks.history);
+        });
+
+        test("Should pick up the current entry's key.", () => {
+            // Assert.
+            expect(historyApi.key).toBe('key-0');
+        });
+    });
+
+    describe("isSupported", () => {
+        test("Should return true when window.navigation exists.", () => {
+            // Assert.
+            expect(NavigationApiHistoryApi.isSupported()).toBe(true);
+        });
+
+        test("Should return false when window.navigation does not exist.", () => {
+            // Arrange.
+            // @ts-expect-error Stubbing the Navigation API for testing.
+            delete browserMocks.window.navigation;
+
+            // Assert.
+            expect(NavigationApiHistoryApi.isSupported()).toBe(false);
+        });
+    });
+
+    describe("pushState/replaceState", () => {
+        test.each([
+            { method: 'push' as const, stateFn: 'pushState' as const },
+            { method: 'replace' as const, stateFn: 'replaceState' as const },
+        ])("Should raise 'beforeNavigate' with method $method and call the History API.", ({ method, stateFn }) => {
+            // Arrange.
+            const callback = vi.fn();
+            const state: State = { path: 1, hash: {} };
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            historyApi[stateFn](state, '', 'http://example.com/other');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+                url: 'http://example.com/other',
+                state,
+                method
+            }));
+            const expectedState = { ...state, index: method === 'push' ? 1 : 0, key: expect.any(String) };
+            expect(historyMocks[stateFn]).toHaveBeenCalledWith(expectedState, '', 'http://example.com/other');
+            expect(historyApi.url.href).toBe('http://example.com/other');
+            expect(historyApi.state).toEqual(expectedState);
+        });
+
+        test("Should not call the History API when navigation is cancelled.", () => {
+            // Arrange.
+            const cancelledCallback = vi.fn();
+            historyApi.on('beforeNavigate', (e) => e.cancel('reason'));
+            historyApi.on('navigationCancelled', cancelledCallback);
+
+            // Act.
+            historyApi.pushState({ path: 1, hash: {} }, '', 'http://example.com/other');
+
+            // Assert.
+            expect(historyMocks.pushState).not.toHaveBeenCalled();
+            expect(historyApi.url.href).toBe(initialUrl);
+            expect(cancelledCallback).toHaveBeenCalledWith(expect.objectContaining({ cause: 'reason', method: 'push' }));
+        });
+
+        test("Should ignore the navigate event caused by its own History API call.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+            historyMocks.pushState.mockImplementationOnce(() => {
+                navigation.fireNavigate('push', 'http://example.com/other');
+            });
+
+            // Act.
+            historyApi.pushState({ path: 1, hash: {} }, '', 'http://example.com/other');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledOnce();
+        });
+    });
+
+    describe("navigate event", () => {
+        test.each([
+            { navigationType: 'push' as const, method: 'push' },
+            { navigationType: 'replace' as const, method: 'replace' },
+            { navigationType: 'traverse' as const, method: 'pop' },
+        ])("Should surface '$navigationType' navigate events as 'beforeNavigate' with method $method.", ({ navigationType, method }) => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            navigation.fireNavigate(navigationType, 'http://example.com/other');
+
+            // Assert.
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+                url: 'http://example.com/other',
+                state: 'destination-state',
+                method
+            }));
+        });
+
+        test("Should prevent the navigation when a handler cancels it.", () => {
+            // Arrange.
+            const cancelledCallback = vi.fn();
+            historyApi.on('beforeNavigate', (e) => e.cancel());
+            historyApi.on('navigationCancelled', cancelledCallback);
+
+            // Act.
+            const event = navigation.fireNavigate('traverse', 'http://example.com/other');
+
+            // Assert.
+            expect(event.defaultPrevented).toBe(true);
+            expect(cancelledCallback).toHaveBeenCalledWith(expect.objectContaining({ method: 'pop' }));
+        });
+
+        test("Should not prevent the navigation when no handler cancels it.", () => {
+            // Arrange.
+            historyApi.on('beforeNavigate', vi.fn());
+
+            // Act.
+            const event = navigation.fireNavigate('push', 'http://example.com/other');
+
+            // Assert.
+            expect(event.defaultPrevented).toBe(false);
+        });
+
+        test.each([
+            { navigationType: 'push' as const, expectedCall: 'navigate' as const, expectedArgs: ['http://example.com/other', { state: 'destination-state', history: 'push' }] },
+            { navigationType: 'traverse' as const, expectedCall: 'traverseTo' as const, expectedArgs: ['destination-key'] },
+        ])("Should prevent '$navigationType' navigation held by a handler, and repeat it once allowed.", async ({ navigationType, expectedCall, expectedArgs }) => {
+            // Arrange.
+            let allow!: () => void;
+            const callback = vi.fn(() => new Promise<void>((resolve) => allow = resolve));
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            const event = navigation.fireNavigate(navigationType, 'http://example.com/other');
+            allow();
+            await vi.waitFor(() => expect(navigation[expectedCall]).toHaveBeenCalledWith(...expectedArgs));
+            navigation.fireNavigate(navigationType, 'http://example.com/other');
+
+            // Assert.
+            expect(event.defaultPrevented).toBe(true);
+            expect(callback).toHaveBeenCalledOnce();
+        });
+
+        test("Should prevent a History API call of another library held by a handler, and repeat it through the History API once allowed.", async () => {
+            // Arrange.
+            let allow!: () => void;
+            const callback = vi.fn(() => new Promise<void>((resolve) => allow = resolve));
+            historyApi.on('beforeNavigate', callback);
+            let event!: Event;
+            historyMocks.pushState.mockImplementationOnce(() => {
+                event = navigation.fireNavigate('push', 'http://example.com/other');
+            });
+            const data = { library: 'data' };
+
+            // Act.
+            globalThis.window.history.pushState(data, '', '/other');
+            allow();
+            await vi.waitFor(() => expect(historyMocks.pushState).toHaveBeenCalledTimes(2));
+
+            // Assert.
+            expect(event.defaultPrevented).toBe(true);
+            expect(callback).toHaveBeenCalledWith(expect.objectContaining({ state: data, method: 'push' }));
+            expect(historyMocks.pushState).toHaveBeenLastCalledWith(data, '', '/other');
+            expect(navigation.navigate).not.toHaveBeenCalled();
+        });
+
+        test.each([
+            { text: 'non-cancelable navigation', navigationType: 'push' as const, cancelable: false },
+            { text: 'reloads', navigationType: 'reload' as const, cancelable: true },
+        ])("Should not surface $text.", ({ navigationType, cancelable }) => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            navigation.fireNavigate(navigationType, 'http://example.com/', cancelable);
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("currententrychange event", () => {
+        test("Should synchronize the URL, state and key.", () => {
+            // Arrange.
+            const state: State = { path: 'ext', hash: {} };
+            browserMocks.setUrl('http://example.com/external');
+            browserMocks.setState(state);
+
+            // Act.
+            navigation.changeEntry('key-1');
+
+            // Assert.
+            expect(historyApi.url.href).toBe('http://example.com/external');
+            expect(historyApi.state).toEqual(state);
+            expect(historyApi.key).toBe('key-1');
+            expect(historyApi.entryKeys).toEqual(['key-0', 'key-1']);
+        });
+    });
+
+    describe("hashchange event", () => {
+        test("Should synchronize the history state without raising 'beforeNavigate', and report the navigation as 'hashchange'.", () => {
+            // Arrange.
+            const beforeCallback = vi.fn();
+            const navigatedCallback = vi.fn();
+            historyApi.on('beforeNavigate', beforeCallback);
+            historyApi.onNavigated(navigatedCallback);
+            historyMocks.replaceState.mockImplementationOnce(() => {
+                // Browsers raise these events while the History API call runs.
+                navigation.fireNavigate('replace', 'http://example.com/#fragment');
+                navigation.changeEntry('key-1', 'replace');
+            });
+            browserMocks.setUrl('http://example.com/#fragment');
+
+            // Act.
+            browserMocks.triggerHashChange();
+
+            // Assert.
+            expect(beforeCallback).not.toHaveBeenCalled();
+            expect(historyMocks.replaceState).toHaveBeenCalledWith(expect.objectContaining({ hash: {} }), '', 'http://example.com/#fragment');
+            expect(navigatedCallback).toHaveBeenCalledExactlyOnceWith('hashchange');
+            expect(historyApi.url.href).toBe('http://example.com/#fragment');
+        });
+    });
+
+    describe("dispose", () => {
+        test("Should clear event subscriptions and stop listening to the Navigation API.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.on('beforeNavigate', callback);
+
+            // Act.
+            historyApi.dispose();
+            navigation.fireNavigate('push', 'http://example.com/other');
+            navigation.changeEntry('key-1');
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+            expect(historyApi.key).toBe('key-0');
+        });
+
+        test("Should restore the methods of window.history.", () => {
+            // Act.
+            historyApi.dispose();
+
+            // Assert.
+            expect(globalThis.window.history.pushState).toBe(historyMocks.pushState);
+            expect(globalThis.window.history.replaceState).toBe(historyMocks.replaceState);
+        });
+    });
+});
@@ -0,0 +1,242 @@
+import { on } from "svelte/events";
+import type { BeforeNavigateEvent, NavigationCancelledEvent, State, FullModeHistoryApi } from "../types.js";
+import { isConformantState } from "./isConformantState.js";
+import { StockHistoryApi } from "./StockHistoryApi.svelte.js";
+import { logger } from "./Logger.js";
+import { NavigationEventHub, type NavigationEventHandler } from "./NavigationEventHub.js";
+
+/**
+ * Minimal shape of the `NavigateEvent` objects of the Navigation API that this module uses.
+ */
+type NavigateEventLike = Event & {
+    readonly navigationType: NavigationType;
+    readonly destination: {
+        readonly url: string;
+        readonly key?: string;
+        getState(): unknown;
+    };
+};
+
+/**
+ * Minimal shape of the Navigation API's `navigation` object that this module uses.
+ */
+type NavigationLike = EventTarget & {
+    readonly currentEntry: NavigationHistoryEntry | null;
+    entries(): NavigationHistoryEntry[];
+    navigate(url: string, options?: { state?: unknown; history?: 'push' | 'replace' }): unknown;
+    traverseTo(key: string): unknown;
+};
+
+/**
+ * Describes a call made to the `pushState()` or `replaceState()` methods of `window.history`.
+ */
+type HistoryCall = {
+    method: 'push' | 'replace';
+    data: unknown;
+    unused: string;
+    url: string | URL | null | undefined;
+};
+
+function getNavigation() {
+    return (globalThis.window as (Window & { navigation?: NavigationLike }) | undefined)?.navigation;
+}
+
+/**
+ * HistoryApi implementation that uses the browser's Navigation API to provide the `beforeNavigate` and
+ * `navigationCancelled` events.
+ *
+ * Unlike `InterceptedHistoryApi`, this implementation does not replace `window.history`.  Instead, it listens to the
+ * `navigate` event of the `window.navigation` object, so navigation triggered by link clicks, other libraries and
+ * back/forward traversals (reported with the `pop` method) can be cancelled as well.  The `pushState()` and
+ * `replaceState()` methods of `window.history` are wrapped only to learn the data given by other libraries, which the
+ * `navigate` event does not carry.
+ *
+ * **IMPORTANT**:  Only navigation events that the browser reports as cancelable are surfaced as `beforeNavigate`
+ * events.  Reloads are never surfaced.  Because the browser requires an immediate decision, navigation held by
+ * asynchronous `beforeNavigate` handlers is prevented, and then repeated once the handlers allow it.
+ *
+ * @example
+ * ```typescript
+ * import { initCore, LocationFull, NavigationApiHistoryApi } from "@svelte-router/core/kernel";
+ *
+ * initCore(new LocationFull(NavigationApiHistoryApi.isSupported() ? new NavigationApiHistoryApi() : undefined));
+ * ```
+ */
+export class NavigationApiHistoryApi extends StockHistoryApi implements FullModeHistoryApi {
+    #events = new NavigationEventHub();
+    #navigation: NavigationLike | undefined;
+    #cleanupFunctions: (() => void)[] = [];
+    #ownNavigation = false;
+    #replayedUrl: string | undefined;
+    #historyCall: HistoryCall | undefined;
+    #historyMethods: Record<HistoryCall['method'], History['pushState']> | undefined;
+    /**
+     * Gets the key of the current history entry, as reported by the Navigation API.
+     */
+    key = $state<string>();
+
+    /**
+     * Determines whether the current environment supports the Navigation API.
+     * @returns `true` if `window.navigation` is available; `false` otherwise.
+     */
+    static isSupported() {
+        return !!getNavigation();
+    }
+
+    constructor(initialUrl?: string, initialState?: State) {
+        super(initialUrl, initialState);
+        this.#navigation = getNavigation();
+        if (globalThis.window && !this.#navigation) {
+            throw new Error("The Navigation API is not supported in this environment.");
+        }
+        if (this.#navigation) {
+            this.key = this.#navigation.currentEntry?.key;
+            this.#cleanupFunctions.push(
+                on(this.#navigation, 'navigate', this.#handleNavigateEvent as EventListener),
+                on(this.#navigation, 'currententrychange', this.#handleCurrentEntryChangeEvent)
+            );
+            this.#wrapHistoryMethods(globalThis.window.history);
+        }
+    }
+
+    #wrapHistoryMethods(history: History) {
+        const methods = { push: history.pushState, replace: history.replaceState };
+        this.#historyMethods = methods;
+        history.pushState = (data, unused, url) => this.#callHistory(history, { method: 'push', data, unused, url });
+        history.replaceState = (data, unused, url) => this.#callHistory(history, { method: 'replace', data, unused, url });
+        this.#cleanupFunctions.push(() => {
+            history.pushState = methods.push;
+            history.replaceState = methods.replace;
+        });
+    }
+
+    #callHistory(history: History, call: HistoryCall) {
+        // The navigate event is raised synchronously, while the original method runs.
+        const previousCall = this.#historyCall;
+        this.#historyCall = call;
+        try {
+            this.#historyMethods![call.method].call(history, call.data, call.unused, call.url);
+        }
+        finally {
+            this.#historyCall = previousCall;
+        }
+    }
+
+    /**
+     * Gets the keys of all the history entries of the current document, as reported by the Navigation API.
+     */
+    get entryKeys(): string[] {
+        return this.#navigation?.entries().map(e => e.key) ?? [];
+    }
+
+    #handleNavigateEvent = (event: NavigateEventLike): void => {
+        if (this.#ownNavigation || !event.cancelable || event.navigationType === 'reload') {
+            return;
+        }
+        if (this.#replayedUrl === event.destination.url) {
+            // Already allowed by the beforeNavigate handlers.
+            this.#replayedUrl = undefined;
+            return;
+        }
+        // Navigation API state is not history state, so the data given to the History API is preferred.
+        const historyCall = this.#historyCall;
+        let decided = false;
+        let held = false;
+        const beforeEvent = this.#events.raiseBeforeNavigate(
+            event.destination.url,
+            historyCall ? historyCall.data : event.destination.getState(),
+            event.navigationType === 'traverse' ? 'pop' : event.navigationType,
+            (allowedEvent) => {
+                decided = true;
+                if (held) {
+                    this.#replay(event, allowedEvent.state, historyCall);
+                }
+            }
+        );
+        if (beforeEvent.wasCancelled || !decided) {
+            event.preventDefault();
+            held = !beforeEvent.wasCancelled;
+        }
+    }
+
+    #replay(event: NavigateEventLike, state: unknown, historyCall: HistoryCall | undefined) {
+        this.#replayedUrl = event.destination.url;
+        if (historyCall) {
+            // Navigation held from the History API is same-document navigation, and must remain so.
+            this.#historyMethods![historyCall.method].call(globalThis.window.history, state, historyCall.unused, historyCall.url);
+        }
+        else if (event.navigationType === 'traverse') {
+            this.#navigation?.traverseTo(event.destination.key!);
+        }
+        else {
+            this.#navigation?.navigate(event.destination.url, {
+                state,
+                history: event.navigationType as 'push' | 'replace'
+            });
+        }
+    }
+
+    handleHashChange(): void {
+        // The history state is synchronized through the History API, which must not be surfaced as navigation.
+        this.#ownNavigation = true;
+        try {
+            super.handleHashChange();
+        }
+        finally {
+            this.#ownNavigation = false;
+        }
+    }
+
+    #handleCurrentEntryChangeEvent = (event: Event): void => {
+        this.key = this.#navigation?.currentEntry?.key;
+        // Navigation done by other means (other libraries, link clicks, etc.) must also be reflected.
+        this.url.href = globalThis.window.location.href;
+        this.state = this.normalizeState(globalThis.window.history.state, this.state);
+        const navigationType = (event as Event & { navigationType?: NavigationType | null }).navigationType;
+        if (!this.#ownNavigation && navigationType !== 'reload') {
+            this.raiseNavigated(navigationType === 'push' || navigationType === 'replace' ? navigationType : 'pop');
+        }
+    }
+
+    pushState(data: any, unused: string, url?: string | URL | null): void {
+        this.#navigate('push', data, unused, url);
+    }
+
+    replaceState(data: any, unused: string, url?: string | URL | null): void {
+        this.#navigate('replace', data, unused, url);
+    }
+
+    #navigate(method: 'push' | 'replace', state: any, unused: string, url?: string | URL | null) {
+        this.#events.raiseBeforeNavigate(url?.toString() || '', state, method, (event) => {
+            if (!isConformantState(event.state)) {
+                logger.warn(`Warning: Non-conformant state object passed to history.${method}State. Previous state will prevail.`);
+                event.state = this.state;
+            }
+            // The navigate event raised by the History API must be ignored, as beforeNavigate has already been raised.
+            this.#ownNavigation = true;
+            try {
+                super[`${method}State`](event.state, unused, url);
+            }
+            finally {
+                this.#ownNavigation = false;
+            }
+            this.key = this.#navigation?.currentEntry?.key;
+        });
+    }
+
+    /**
+     * Subscribe to navigation events.
+     */
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
+    on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
+    on<K extends 'beforeNavigate' | 'navigationCancelled'>(event: K, callback: NavigationEventHandler<K>): () => void {
+        return this.#events.on(event, callback);
+    }
+
+    dispose(): void {
+        this.#events.clear();
+        this.#cleanupFunctions.forEach(cleanup => cleanup());
+        this.#cleanupFunctions = [];
+        super.dispose();
+    }
+}
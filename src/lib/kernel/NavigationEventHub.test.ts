@@ -0,0 +1,226 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { NavigationEventHub } from "./NavigationEventHub.js";
+import { logger } from "./Logger.js";
+
+function deferred() {
+    let resolve!: () => void;
+    let reject!: (reason?: any) => void;
+    const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+describe("NavigationEventHub", () => {
+    let hub: NavigationEventHub;
+
+    beforeEach(() => {
+        hub = new NavigationEventHub();
+    });
+
+    describe("raiseBeforeNavigate", () => {
+        test("Should call all 'beforeNavigate' subscribers with the event data.", () => {
+            // Arrange.
+            const callback1 = vi.fn();
+            const callback2 = vi.fn();
+            hub.on('beforeNavigate', callback1);
+            hub.on('beforeNavigate', callback2);
+            const state = { path: 1, hash: {} };
+
+            // Act.
+            const event = hub.raiseBeforeNavigate('/abc', state, 'push');
+
+            // Assert.
+            expect(callback1).toHaveBeenCalledWith(event);
+            expect(callback2).toHaveBeenCalledWith(event);
+            expect(event).toEqual({
+                url: '/abc',
+                state,
+                method: 'push',
+                wasCancelled: false,
+                cancelReason: undefined,
+                cancel: expect.any(Function)
+            });
+        });
+
+        test("Should raise 'navigationCancelled' with the first cancellation cause when a handler cancels.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            hub.on('beforeNavigate', (e) => e.cancel('first'));
+            hub.on('beforeNavigate', (e) => e.cancel('second'));
+            hub.on('navigationCancelled', callback);
+
+            // Act.
+            const event = hub.raiseBeforeNavigate('/abc', undefined, 'replace');
+
+            // Assert.
+            expect(event.wasCancelled).toBe(true);
+            expect(callback).toHaveBeenCalledWith({
+                url: '/abc',
+                state: undefined,
+                method: 'replace',
+                cause: 'first'
+            });
+        });
+
+        test("Should not raise 'navigationCancelled' when no handler cancels.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            hub.on('beforeNavigate', vi.fn());
+            hub.on('navigationCancelled', callback);
+
+            // Act.
+            hub.raiseBeforeNavigate('/abc', undefined, 'push');
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+        });
+
+        test("Should call the proceed function immediately when no handler returns a promise.", () => {
+            // Arrange.
+            const proceed = vi.fn();
+            hub.on('beforeNavigate', vi.fn());
+
+            // Act.
+            const event = hub.raiseBeforeNavigate('/abc', undefined, 'push', proceed);
+
+            // Assert.
+            expect(proceed).toHaveBeenCalledExactlyOnceWith(event);
+        });
+
+        test("Should not call the proceed function when a handler cancels.", () => {
+            // Arrange.
+            const proceed = vi.fn();
+            hub.on('beforeNavigate', (e) => e.cancel());
+
+            // Act.
+            hub.raiseBeforeNavigate('/abc', undefined, 'push', proceed);
+
+            // Assert.
+            expect(proceed).not.toHaveBeenCalled();
+        });
+
+        test("Should hold the navigation until the promises returned by the handlers settle.", async () => {
+            // Arrange.
+            const proceed = vi.fn();
+            const first = deferred();
+            const second = deferred();
+            hub.on('beforeNavigate', () => first.promise);
+            hub.on('beforeNavigate', () => second.promise);
+
+            // Act.
+            hub.raiseBeforeNavigate('/abc', undefined, 'push', proceed);
+            first.resolve();
+            await first.promise;
+            const calledEarly = proceed.mock.calls.length > 0;
+            second.resolve();
+
+            // Assert.
+            expect(calledEarly).toBe(false);
+            await vi.waitFor(() => expect(proceed).toHaveBeenCalledOnce());
+        });
+
+        test("Should raise 'navigationCancelled' when an asynchronous handler cancels.", async () => {
+            // Arrange.
+            const proceed = vi.fn();
+            const cancelledCallback = vi.fn();
+            hub.on('beforeNavigate', async (e) => {
+                await Promise.resolve();
+                e.cancel('user said no');
+            });
+            hub.on('navigationCancelled', cancelledCallback);
+
+            // Act.
+            hub.raiseBeforeNavigate('/abc', undefined, 'push', proceed);
+
+            // Assert.
+            await vi.waitFor(() => expect(cancelledCallback).toHaveBeenCalledWith(expect.objectContaining({
+                url: '/abc',
+                cause: 'user said no'
+            })));
+            expect(proceed).not.toHaveBeenCalled();
+        });
+
+        test("Should cancel the navigation with the rejection reason when a handler's promise rejects.", async () => {
+            // Arrange.
+            const proceed = vi.fn();
+            const cancelledCallback = vi.fn();
+            const error = new Error("Failure.");
+            const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+            hub.on('beforeNavigate', () => Promise.reject(error));
+            hub.on('navigationCancelled', cancelledCallback);
+
+            // Act.
+            hub.raiseBeforeNavigate('/abc', undefined, 'push', proceed);
+
+            // Assert.
+            await vi.waitFor(() => expect(cancelledCallback).toHaveBeenCalledWith(expect.objectContaining({
+                cause: error
+            })));
+            expect(proceed).not.toHaveBeenCalled();
+            expect(errorSpy).toHaveBeenCalled();
+
+            // Cleanup.
+            errorSpy.mockRestore();
+        });
+
+        test("Should cancel the held navigation with the 'superseded' cause when a newer navigation occurs.", async () => {
+            // Arrange.
+            const proceed1 = vi.fn();
+            const proceed2 = vi.fn();
+            const cancelledCallback = vi.fn();
+            const pending = deferred();
+            hub.on('beforeNavigate', (e) => e.url === '/first' ? pending.promise : undefined);
+            hub.on('navigationCancelled', cancelledCallback);
+            hub.raiseBeforeNavigate('/first', undefined, 'push', proceed1);
+
+            // Act.
+            hub.raiseBeforeNavigate('/second', undefined, 'push', proceed2);
+            pending.resolve();
+            await pending.promise;
+            await Promise.resolve();
+
+            // Assert.
+            expect(cancelledCallback).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({
+                url: '/first',
+                cause: 'superseded'
+            }));
+            expect(proceed1).not.toHaveBeenCalled();
+            expect(proceed2).toHaveBeenCalledOnce();
+        });
+    });
+
+    describe("on", () => {
+        test("Should stop calling the subscriber once the returned function is called.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            const unSub = hub.on('beforeNavigate', callback);
+
+            // Act.
+            unSub();
+            hub.raiseBeforeNavigate('/abc', undefined, 'push');
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("clear", () => {
+        test("Should remove all subscriptions.", () => {
+            // Arrange.
+            const callback1 = vi.fn();
+            const callback2 = vi.fn();
+            hub.on('beforeNavigate', (e) => { callback1(); e.cancel(); });
+            hub.on('navigationCancelled', callback2);
+
+            // Act.
+            hub.clear();
+            hub.raiseBeforeNavigate('/abc', undefined, 'push');
+
+            // Assert.
+            expect(callback1).not.toHaveBeenCalled();
+            expect(callback2).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import type {
+    AfterNavigateEvent,
+    BeforeNavigateEvent,
+    Events,
+    LifecycleEvents,
+    NavigationCancelledEvent,
+    NavigationEndEvent,
+    NavigationEvent,
+    NavigationStartEvent
+} from "../types.js";
+import { logger } from "./Logger.js";
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown>)?.then === 'function';
+}
+
+/**
+ * Maps the navigation events to the type of their event objects.
+ */
+type EventObjects = {
+    beforeNavigate: BeforeNavigateEvent;
+    navigationCancelled: NavigationCancelledEvent;
+    navigationStart: NavigationStartEvent;
+    afterNavigate: AfterNavigateEvent;
+    navigationEnd: NavigationEndEvent;
+};
+
+/**
+ * Defines the shape of the handlers of the given navigation event.
+ */
+export type NavigationEventHandler<K extends Events> = (event: EventObjects[K]) => void | PromiseLike<void>;
+
+/**
+ * Defines the event handlers of each navigation event, by subscription identifier.
+ */
+type Subscriptions = {
+    [K in Events]: Record<number, NavigationEventHandler<K>>;
+};
+
+function createSubscriptions(): Subscriptions {
+    return {
+        beforeNavigate: {},
+        navigationCancelled: {},
+        navigationStart: {},
+        afterNavigate: {},
+        navigationEnd: {},
+    };
+}
+
+/**
+ * Helper class that keeps track of navigation event subscriptions and raises the navigation events.
+ *
+ * It is used by the `FullModeHistoryApi` implementations to provide the `beforeNavigate` and `navigationCancelled`
+ * events, and by the location objects to provide the navigation lifecycle events.
+ */
+export class NavigationEventHub {
+    #eventSubs = createSubscriptions();
+    #nextSubId = 0;
+    #pendingEvent: { event: BeforeNavigateEvent; cancelled?: (event: BeforeNavigateEvent) => void } | undefined;
+
+    /**
+     * Subscribe to navigation events.
+     */
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
+    on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
+    on(event: 'navigationStart', callback: (event: NavigationStartEvent) => void): () => void;
+    on(event: 'afterNavigate', callback: (event: AfterNavigateEvent) => void): () => void;
+    on(event: 'navigationEnd', callback: (event: NavigationEndEvent) => void): () => void;
+    on<K extends Events>(event: K, callback: NavigationEventHandler<K>): () => void;
+    on<K extends Events>(event: K, callback: NavigationEventHandler<K>): () => void {
+        const id = ++this.#nextSubId;
+        this.#eventSubs[event][id] = callback;
+        return () => delete this.#eventSubs[event][id];
+    }
+
+    /**
+     * Raises the `beforeNavigate` event and, if any of the handlers cancels the navigation, the `navigationCancelled`
+     * event.
+     *
+     * Handlers may return a promise to hold the navigation until the promise settles.  In this case, the navigation
+     * is decided once all the returned promises settle, unless a newer navigation supersedes it first, in which case
+     * it is cancelled with the `'superseded'` cause.  A rejected promise cancels the navigation, using the rejection
+     * reason as cause.
+     * @param url The URL that was specified for navigation.
+     * @param state The state object that was specified along with the URL.
+     * @param method The method of navigation.
+     * @param proceed The function that carries out the navigation, called only if the navigation is not cancelled.
+     * @param cancelled The function called if the navigation is cancelled, before the `navigationCancelled` event is
+     * raised.
+     * @returns The event object, as left by the `beforeNavigate` event handlers.
+     */
+    raiseBeforeNavigate(
+        url: string,
+        state: unknown,
+        method: NavigationEvent['method'],
+        proceed?: (event: BeforeNavigateEvent) => void,
+        cancelled?: (event: BeforeNavigateEvent) => void
+    ): BeforeNavigateEvent {
+        if (this.#pendingEvent) {
+            const superseded = this.#pendingEvent;
+            this.#pendingEvent = undefined;
+            superseded.event.cancel('superseded');
+            this.#settle(superseded.event, undefined, superseded.cancelled);
+        }
+        const event: BeforeNavigateEvent = {
+            url,
+            state,
+            method,
+            wasCancelled: false,
+            cancelReason: undefined,
+            cancel: (cause) => {
+                if (event.wasCancelled) {
+                    return;
+                }
+                event.wasCancelled = true;
+                event.cancelReason = cause;
+            }
+        };
+
+        // Notify beforeNavigate listeners
+        const promises: PromiseLike<unknown>[] = [];
+        for (const sub of Object.values(this.#eventSubs.beforeNavigate)) {
+            const result = sub(event);
+            if (isPromiseLike(result)) {
+                promises.push(result);
+            }
+        }
+
+        if (!promises.length) {
+            this.#settle(event, proceed, cancelled);
+            return event;
+        }
+        const pendingEvent = { event, cancelled };
+        this.#pendingEvent = pendingEvent;
+        Promise.allSettled(promises).then((results) => {
+            if (this.#pendingEvent !== pendingEvent) {
+                // Superseded by a newer navigation, or the subscriptions were cleared.
+                return;
+            }
+            this.#pendingEvent = undefined;
+            const rejection = results.find(r => r.status === 'rejected');
+            if (rejection) {
+                logger.error("A beforeNavigate handler failed.  Navigation has been cancelled.", rejection.reason);
+                event.cancel(rejection.reason);
+            }
+            this.#settle(event, proceed, cancelled);
+        });
+        return event;
+    }
+
+    #settle(
+        event: BeforeNavigateEvent,
+        proceed?: (event: BeforeNavigateEvent) => void,
+        cancelled?: (event: BeforeNavigateEvent) => void
+    ) {
+        if (!event.wasCancelled) {
+            proceed?.(event);
+            return;
+        }
+        cancelled?.(event);
+        // Notify navigationCancelled listeners
+        for (const sub of Object.values(this.#eventSubs.navigationCancelled)) {
+            sub({
+                url: event.url,
+                state: event.state,
+                method: event.method,
+                cause: event.cancelReason,
+            });
+        }
+    }
+
+    /**
+     * Raises one of the navigation lifecycle events.
+     * @param event The event to raise.
+     * @param data The event object given to the event handlers.
+     */
+    raise(event: 'navigationStart', data: NavigationStartEvent): void;
+    raise(event: 'afterNavigate', data: AfterNavigateEvent): void;
+    raise(event: 'navigationEnd', data: NavigationEndEvent): void;
+    raise<K extends LifecycleEvents>(event: K, data: EventObjects[K]) {
+        for (const sub of Object.values(this.#eventSubs[event])) {
+            sub(data);
+        }
+    }
+
+    /**
+     * Removes all event subscriptions.
+     */
+    clear() {
+        this.#eventSubs = createSubscriptions();
+        this.#pendingEvent = undefined;
+    }
+}
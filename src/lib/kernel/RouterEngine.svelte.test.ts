@@ -1,11 +1,16 @@
 import { describe, test, expect, beforeAll, afterAll, afterEach, vi, beforeEach } from "vitest";
-import { routePatternsKey, RouterEngine } from "./RouterEngine.svelte.js";
+import { flushSync } from "svelte";
+import { routePatternsKey, RouterEngine, type RouterEngineOptions } from "./RouterEngine.svelte.js";
 import { init } from "../init.js";
 import { registerRouter } from "./trace.svelte.js";
 import { location } from "./Location.js";
 import type { State, RouteInfo, ExtendedRoutingOptions, PatternRouteInfo } from "../types.js";
-import { setupBrowserMocks, addRoutes, ROUTING_UNIVERSES, ALL_HASHES } from "$test/test-utils.js";
+import { setupBrowserMocks, addRoutes, ROUTING_UNIVERSES, ALL_HASHES, buildUniverseUrl, stubViewTransitions } from "$test/test-utils.js";
 import { resetRoutingOptions, setRoutingOptions } from "./options.js";
+import { calculateHref } from "./calculateHref.js";
+import { resolveHashValue } from "./resolveHashValue.js";
+import { logger } from "./Logger.js";
+import { resetViewTransitions, setViewTransitions } from "./viewTransitions.js";
 
 describe("RouterEngine", () => {
     describe('constructor', () => {
@@ -214,6 +219,20 @@ ROUTING_UNIVERSES.forEach(universe => {
             browserMocks.cleanup();
         });
 
+        // Routers whose guards or redirections could react to the URL changes of other tests.
+        let routers: RouterEngine[] = [];
+
+        function createRouter(options?: Omit<RouterEngineOptions, 'hash'>) {
+            const router = new RouterEngine({ hash: universe.hash, ...options });
+            routers.push(router);
+            return router;
+        }
+
+        afterEach(() => {
+            routers.forEach(r => r.dispose());
+            routers = [];
+        });
+
         describe('constructor', () => {
             test("Should create router with correct hash configuration", () => {
                 // Act.
@@ -663,6 +682,43 @@ ROUTING_UNIVERSES.forEach(universe => {
                         }
                     }
                 });
+
+                test.each([
+                    { pattern: '/user/:id(\\d+)', testPathname: '/user/123', willMatch: true, params: { id: '123' } },
+                    { pattern: '/user/:id(\\d+)', testPathname: '/user/abc', willMatch: false },
+                    { pattern: '/files/:name([a-z-]+)', testPathname: '/files/my-file', willMatch: true, params: { name: 'my-file' } },
+                    { pattern: '/files/:name([a-z-]+)', testPathname: '/files/my_file', willMatch: false },
+                    { pattern: '/:lang(en|es|fr)/home', testPathname: '/es/home', willMatch: true, params: { lang: 'es' } },
+                    { pattern: '/:lang(en|es|fr)/home', testPathname: '/de/home', willMatch: false },
+                    { pattern: '/:lang(en|es|fr)/home', testPathname: '/english/home', willMatch: false },
+                    { pattern: '/:lang((?:en|es)-(?:US|MX))', testPathname: '/es-MX', willMatch: true, params: { lang: 'es-MX' } },
+                    { pattern: '/user/:id(\\d+)?', testPathname: '/user', willMatch: true, params: { id: undefined } },
+                    { pattern: '/user/:id(\\d+)?', testPathname: '/user/12', willMatch: true, params: { id: '12' } },
+                    { pattern: '/user/:id(\\d+)?', testPathname: '/user/ab', willMatch: false },
+                    { pattern: '/v:major(\\d+).:minor(\\d+)/*', testPathname: '/v1.2/docs', willMatch: true, params: { major: '1', minor: '2', rest: '/docs' } },
+                    { pattern: '/v:major(\\d+).:minor(\\d+)/*', testPathname: '/v1x2/docs', willMatch: false },
+                ] as {
+                    pattern: string;
+                    testPathname: string;
+                    willMatch: boolean;
+                    params?: Record<string, string | undefined>;
+                }[])("Should honor the parameter constraints in pattern $pattern with pathname $testPathname .", ({ pattern, testPathname, willMatch, params }) => {
+                    // Arrange.
+                    const router = new RouterEngine({ hash: universe.hash });
+                    router.routes['route'] = { pattern };
+
+                    // Act.
+                    const matches = router[routePatternsKey]().get('route')!.regex?.exec(testPathname);
+
+                    // Assert.
+                    expect(!!matches).toBe(willMatch);
+                    if (willMatch && params) {
+                        expect(Object.keys(matches!.groups!).length).toBe(Object.keys(params).length);
+                        for (let key in params) {
+                            expect(matches!.groups![key]).toBe(params[key]);
+                        }
+                    }
+                });
             });
         });
 
@@ -735,5 +791,950 @@ ROUTING_UNIVERSES.forEach(universe => {
                 expect(router.noMatches).toBe(true);
             });
         });
+
+        describe('matches', () => {
+            test("Should be empty whenever there are no matching routes.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+
+                // Act.
+                addRoutes(router, { nonMatching: 2 });
+
+                // Assert.
+                expect(router.matches).toEqual([]);
+            });
+
+            test("Should list the matching routes with their metadata.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                const meta = { breadcrumb: 'Home' };
+
+                // Act.
+                addRoutes(router, { nonMatching: 1 });
+                const [matchingKey] = addRoutes(router, { matching: { count: 1, specs: { meta } } });
+
+                // Assert.
+                expect(router.matches).toEqual([{
+                    key: matchingKey,
+                    params: router.routeStatus[matchingKey].routeParams,
+                    meta,
+                    router
+                }]);
+            });
+
+            test("Should list the parent router's matches before its own.", () => {
+                // Arrange.
+                const parent = new RouterEngine({ hash: universe.hash });
+                const child = new RouterEngine(parent);
+                const [parentKey] = addRoutes(parent, { matching: { count: 1, specs: { meta: { level: 'parent' } } } });
+                const [childKey] = addRoutes(child, { matching: { count: 1, specs: { meta: { level: 'child' } } } });
+
+                // Act.
+                const matches = child.matches;
+
+                // Assert.
+                expect(matches.map(m => [m.key, m.meta?.level, m.router])).toEqual([
+                    [parentKey, 'parent', parent],
+                    [childKey, 'child', child],
+                ]);
+                expect(parent.matches).toHaveLength(1);
+            });
+        });
+
+        describe('aliases', () => {
+            test.each([
+                { path: '/profile', alias: '/profile', params: undefined },
+                { path: '/me', alias: '/me', params: undefined },
+                { path: '/users/42', alias: '/users/:id', params: { id: 42 } },
+            ])("Should match $path and report the alias that matched.", ({ path, alias, params }) => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, path);
+
+                // Act.
+                router.routes['profile'] = { pattern: ['/profile', '/me', '/users/:id'] };
+
+                // Assert.
+                expect(router.routeStatus['profile'].match).toBe(true);
+                expect(router.routeStatus['profile'].alias).toBe(alias);
+                expect(router.routeStatus['profile'].routeParams).toEqual(params);
+            });
+
+            test("Should not match nor report an alias when none of the patterns match.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/other');
+
+                // Act.
+                router.routes['profile'] = { pattern: ['/profile', '/me'] };
+
+                // Assert.
+                expect(router.routeStatus['profile'].match).toBe(false);
+                expect(router.routeStatus['profile'].alias).toBeUndefined();
+            });
+
+            test("Should report the first matching alias.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/users/me');
+
+                // Act.
+                router.routes['profile'] = { pattern: ['/users/:id', '/users/me'] };
+
+                // Assert.
+                expect(router.routeStatus['profile'].alias).toBe('/users/:id');
+            });
+
+            test("Should rank routes in exclusive mode using the specificity of the alias that matched.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+                location.url.href = buildUniverseUrl(universe, '/users/new');
+
+                // Act.
+                router.routes['user'] = { pattern: '/users/:id' };
+                router.routes['newUser'] = { pattern: ['/people/new', '/users/new'] };
+
+                // Assert.
+                expect(router.routeStatus['newUser'].match).toBe(true);
+                expect(router.routeStatus['user'].match).toBe(false);
+            });
+
+            test("Should build paths with the first pattern.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.routes['profile'] = { pattern: ['/users/:id', '/me'] };
+
+                // Act.
+                const path = router.routePath('profile', { id: 42 });
+
+                // Assert.
+                expect(path).toBe('/users/42');
+            });
+        });
+
+        describe('exclusive', () => {
+            test("Should be false by default.", () => {
+                // Act.
+                const router = new RouterEngine({ hash: universe.hash });
+
+                // Assert.
+                expect(router.exclusive).toBe(false);
+            });
+
+            test("Should take its initial value from the constructor options.", () => {
+                // Act.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+
+                // Assert.
+                expect(router.exclusive).toBe(true);
+            });
+
+            test("Should let all matching routes match when not in exclusive mode.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/users/new');
+
+                // Act.
+                router.routes['newUser'] = { pattern: '/users/new' };
+                router.routes['user'] = { pattern: '/users/:id' };
+
+                // Assert.
+                expect(router.routeStatus['newUser'].match).toBe(true);
+                expect(router.routeStatus['user'].match).toBe(true);
+            });
+
+            test.each([
+                {
+                    text: 'static segments over parameters',
+                    path: '/users/new',
+                    winner: '/users/new',
+                    losers: ['/users/:id', '/users/:id?', '/users/*', '/:section/new'],
+                },
+                {
+                    text: 'constrained parameters over parameters',
+                    path: '/users/123',
+                    winner: '/users/:id(\\d+)',
+                    losers: ['/users/:slug', '/users/:id(\\d+)?'],
+                },
+                {
+                    text: 'parameters over optional parameters',
+                    path: '/users/123',
+                    winner: '/users/:id',
+                    losers: ['/users/:id?', '/:section/:id?'],
+                },
+                {
+                    text: 'optional parameters over the rest parameter',
+                    path: '/users/123',
+                    winner: '/users/:id?',
+                    losers: ['/users/*', '/*'],
+                },
+                {
+                    text: 'exact patterns over patterns with extra optional segments',
+                    path: '/users',
+                    winner: '/users',
+                    losers: ['/users/:id?', '/users/*'],
+                },
+                {
+                    text: 'the root pattern over the rest parameter',
+                    path: '/',
+                    winner: '/',
+                    losers: ['/*', '/:id?'],
+                },
+                {
+                    text: 'patterns over routes without pattern',
+                    path: '/users',
+                    winner: '/*',
+                    losers: [undefined],
+                },
+            ])("Should rank $text.", ({ path, winner, losers }) => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+                location.url.href = buildUniverseUrl(universe, path);
+
+                // Act.
+                losers.forEach((pattern, i) => {
+                    router.routes[`loser${i}`] = { pattern, and: () => true };
+                });
+                router.routes['winner'] = { pattern: winner };
+
+                // Assert.
+                expect(router.routeStatus['winner'].match).toBe(true);
+                losers.forEach((_, i) => {
+                    expect(router.routeStatus[`loser${i}`].match).toBe(false);
+                });
+            });
+
+            test("Should rank regular expression routes below pattern routes.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+                location.url.href = buildUniverseUrl(universe, '/users/123');
+
+                // Act.
+                router.routes['regex'] = { regex: /^\/users\/(?<id>\d+)$/ };
+                router.routes['pattern'] = { pattern: '/*' };
+
+                // Assert.
+                expect(router.routeStatus['regex'].match).toBe(false);
+                expect(router.routeStatus['pattern'].match).toBe(true);
+            });
+
+            test("Should let the first-defined route win ties.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+                location.url.href = buildUniverseUrl(universe, '/users/123');
+
+                // Act.
+                router.routes['first'] = { pattern: '/users/:id' };
+                router.routes['second'] = { pattern: '/users/:userId' };
+
+                // Assert.
+                expect(router.routeStatus['first'].match).toBe(true);
+                expect(router.routeStatus['second'].match).toBe(false);
+            });
+
+            test("Should not rank routes that don't match.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+                location.url.href = buildUniverseUrl(universe, '/users/new');
+
+                // Act.
+                router.routes['newUser'] = { pattern: '/users/new', and: () => false };
+                router.routes['user'] = { pattern: '/users/:id' };
+
+                // Assert.
+                expect(router.routeStatus['newUser'].match).toBe(false);
+                expect(router.routeStatus['user'].match).toBe(true);
+            });
+
+            test("Should let routes that are ignored for fallback match independently.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash, exclusive: true });
+                location.url.href = buildUniverseUrl(universe, '/users/new');
+
+                // Act.
+                router.routes['layout'] = { pattern: '/*', ignoreForFallback: true };
+                router.routes['newUser'] = { pattern: '/users/new' };
+                router.routes['user'] = { pattern: '/users/:id' };
+
+                // Assert.
+                expect(router.routeStatus['layout'].match).toBe(true);
+                expect(router.routeStatus['newUser'].match).toBe(true);
+                expect(router.routeStatus['user'].match).toBe(false);
+                expect(router.noMatches).toBe(false);
+            });
+
+            test("Should re-evaluate route matching when the setting changes.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/users/new');
+                router.routes['newUser'] = { pattern: '/users/new' };
+                router.routes['user'] = { pattern: '/users/:id' };
+                flushSync();
+                expect(router.routeStatus['user'].match).toBe(true);
+
+                // Act.
+                router.exclusive = true;
+
+                // Assert.
+                expect(router.routeStatus['user'].match).toBe(false);
+            });
+        });
+
+        describe('paramCodecs', () => {
+            afterEach(() => {
+                setRoutingOptions({ paramCodecs: {}, defaultParamCodec: 'auto' });
+            });
+
+            test("Should coerce parameter values with the 'auto' codec by default.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/007/true/abc');
+
+                // Act.
+                router.routes['route'] = { pattern: '/:num/:bool/:str' };
+
+                // Assert.
+                expect(router.routeStatus['route'].routeParams).toEqual({ num: 7, bool: true, str: 'abc' });
+            });
+
+            test.each([
+                { codec: 'string' as const, segment: '007', willMatch: true, value: '007' },
+                { codec: 'int' as const, segment: '42', willMatch: true, value: 42 },
+                { codec: 'int' as const, segment: '4.2', willMatch: false },
+                { codec: 'number' as const, segment: '4.2', willMatch: true, value: 4.2 },
+                { codec: 'number' as const, segment: 'abc', willMatch: false },
+                { codec: 'boolean' as const, segment: 'false', willMatch: true, value: false },
+                { codec: 'boolean' as const, segment: 'yes', willMatch: false },
+            ])("Should parse '$segment' with the '$codec' route codec (match: $willMatch).", ({ codec, segment, willMatch, value }) => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, `/items/${segment}`);
+
+                // Act.
+                router.routes['route'] = { pattern: '/items/:id', paramCodecs: { id: codec } };
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(willMatch);
+                if (willMatch) {
+                    expect(router.routeStatus['route'].routeParams).toEqual({ id: value });
+                }
+            });
+
+            test("Should use custom codecs and pass the decoded value to them.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                const parse = vi.fn((value: string) => value.split(','));
+                location.url.href = buildUniverseUrl(universe, '/tags/a%2Cb');
+
+                // Act.
+                router.routes['route'] = {
+                    pattern: '/tags/:tags',
+                    paramCodecs: { tags: { parse, serialize: (value: string[]) => value.join(',') } }
+                };
+
+                // Assert.
+                expect(router.routeStatus['route'].routeParams).toEqual({ tags: ['a', 'b'] });
+                expect(parse).toHaveBeenCalledWith('a,b');
+            });
+
+            test("Should not call the 'and' predicate when a codec rejects a value.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                const and = vi.fn(() => true);
+                location.url.href = buildUniverseUrl(universe, '/users/summary');
+
+                // Act.
+                router.routes['route'] = { pattern: '/users/:id', paramCodecs: { id: 'int' }, and };
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(false);
+                expect(and).not.toHaveBeenCalled();
+            });
+
+            test("Should apply codecs to the named groups of regular expression routes.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/users/007');
+
+                // Act.
+                router.routes['route'] = { regex: /^\/users\/(?<id>\d+)$/, paramCodecs: { id: 'string' } };
+
+                // Assert.
+                expect(router.routeStatus['route'].routeParams).toEqual({ id: '007' });
+            });
+
+            test("Should use the codecs in the paramCodecs routing option when the route doesn't specify one.", () => {
+                // Arrange.
+                setRoutingOptions({ paramCodecs: { id: 'string' } });
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/007/008');
+
+                // Act.
+                router.routes['global'] = { pattern: '/:id/:other' };
+                router.routes['override'] = { pattern: '/:id/:other', paramCodecs: { id: 'int' } };
+
+                // Assert.
+                expect(router.routeStatus['global'].routeParams).toEqual({ id: '007', other: 8 });
+                expect(router.routeStatus['override'].routeParams).toEqual({ id: 7, other: 8 });
+            });
+
+            test("Should use the defaultParamCodec routing option for parameters without a codec.", () => {
+                // Arrange.
+                setRoutingOptions({ defaultParamCodec: 'string' });
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/007/true');
+
+                // Act.
+                router.routes['route'] = { pattern: '/:id/:flag' };
+
+                // Assert.
+                expect(router.routeStatus['route'].routeParams).toEqual({ id: '007', flag: 'true' });
+            });
+
+            test("Should throw an error when an unknown codec name is used.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                location.url.href = buildUniverseUrl(universe, '/007');
+
+                // Act.
+                // @ts-expect-error Testing an invalid codec name.
+                router.routes['route'] = { pattern: '/:id', paramCodecs: { id: 'date' } };
+                const act = () => router.routeStatus;
+
+                // Assert.
+                expect(act).toThrowError();
+                // Keeps the router's effects from throwing the same error once the test is over.
+                router.dispose();
+            });
+        });
+
+        describe('routePath', () => {
+            test("Should build the path without adapting it to the routing universe.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.basePath = '/admin';
+                router.routes['route'] = { pattern: '/users/:id' };
+
+                // Act.
+                const path = router.routePath('route', { id: 42 });
+
+                // Assert.
+                expect(path).toBe('/admin/users/42');
+            });
+
+            test("Should throw an error when the route uses a regular expression.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.routes['route'] = { regex: /^\/users$/ };
+
+                // Act.
+                const act = () => router.routePath('route');
+
+                // Assert.
+                expect(act).toThrowError();
+            });
+        });
+
+        describe('href', () => {
+            test.each([
+                { pattern: '/users/:id', params: { id: 42 }, expected: '/users/42' },
+                { pattern: '/users/:id/:tab?', params: { id: 42 }, expected: '/users/42' },
+                { pattern: '/users/:id/:tab?', params: { id: 42, tab: 'posts' }, expected: '/users/42/posts' },
+                { pattern: '/users/:id(\\d+)', params: { id: 42 }, expected: '/users/42' },
+                { pattern: '/files/*', params: { rest: '/a/b c' }, expected: '/files/a/b%20c' },
+                { pattern: '/files/*', params: {}, expected: '/files' },
+                { pattern: '/search/:term', params: { term: 'a b/c' }, expected: '/search/a%20b%2Fc' },
+                { pattern: '/', params: undefined, expected: '/' },
+            ])("Should build the HREF for pattern $pattern with parameters $params .", ({ pattern, params, expected }) => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.routes['route'] = { pattern };
+
+                // Act.
+                const href = router.href('route', params);
+
+                // Assert.
+                expect(href).toBe(calculateHref({ hash: universe.hash }, expected));
+            });
+
+            test("Should include the router's base path.", () => {
+                // Arrange.
+                const parent = new RouterEngine({ hash: universe.hash });
+                parent.basePath = '/:lang';
+                const router = new RouterEngine(parent);
+                router.basePath = '/admin';
+                router.routes['route'] = { pattern: '/users/:id' };
+
+                // Act.
+                const href = router.href('route', { lang: 'en', id: 1 });
+
+                // Assert.
+                expect(href).toBe(calculateHref({ hash: universe.hash }, '/en/admin/users/1'));
+            });
+
+            test("Should serialize parameter values using the route's codecs.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.routes['route'] = {
+                    pattern: '/orders/:date',
+                    paramCodecs: {
+                        date: { parse: (value: string) => new Date(value), serialize: (value: Date) => value.toISOString().substring(0, 10) }
+                    }
+                };
+
+                // Act.
+                const href = router.href('route', { date: new Date('2024-05-06T00:00:00Z') });
+
+                // Assert.
+                expect(href).toBe(calculateHref({ hash: universe.hash }, '/orders/2024-05-06'));
+            });
+
+            test.each([
+                { text: 'an object', query: { page: 2, sort: 'name', skip: undefined } },
+                { text: 'a string', query: 'page=2&sort=name' },
+                { text: 'a URLSearchParams object', query: new URLSearchParams({ page: '2', sort: 'name' }) },
+            ])("Should add the query string parameters given as $text.", ({ query }) => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.routes['route'] = { pattern: '/users' };
+
+                // Act.
+                const href = router.href('route', undefined, { query });
+
+                // Assert.
+                expect(href).toBe(calculateHref({ hash: universe.hash }, '/users?page=2&sort=name'));
+            });
+
+            test("Should throw an error when a required parameter is missing.", () => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                router.routes['route'] = { pattern: '/users/:id/:tab?' };
+
+                // Act.
+                const act = () => router.href('route', { tab: 'posts' });
+
+                // Assert.
+                expect(act).toThrowError(/"id"/);
+            });
+
+            test.each([
+                { text: 'does not exist', route: undefined },
+                { text: 'uses a regular expression', route: { regex: /^\/users$/ } },
+                { text: 'has no pattern', route: { and: () => true } },
+            ])("Should throw an error when the route $text.", ({ route }) => {
+                // Arrange.
+                const router = new RouterEngine({ hash: universe.hash });
+                if (route) {
+                    router.routes['route'] = route;
+                }
+
+                // Act.
+                const act = () => router.href('route');
+
+                // Assert.
+                expect(act).toThrowError();
+            });
+        });
+
+        describe('guard', () => {
+            afterEach(() => {
+                vi.restoreAllMocks();
+            });
+
+            test.each([
+                { result: true, expected: true },
+                { result: false, expected: false },
+            ])("Should set the route's match status to $expected when the guard returns $result synchronously.", ({ result, expected }) => {
+                // Arrange.
+                const router = createRouter();
+                location.url.href = buildUniverseUrl(universe, '/admin');
+
+                // Act.
+                router.routes['route'] = { pattern: '/admin', guard: () => result };
+                flushSync();
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(expected);
+                expect(router.noMatches).toBe(!expected);
+            });
+
+            test("Should give the guard the route's parameters, the state and the URL.", () => {
+                // Arrange.
+                const router = createRouter();
+                const guard = vi.fn(() => true);
+                location.url.href = buildUniverseUrl(universe, '/users/42');
+
+                // Act.
+                router.routes['route'] = { pattern: '/users/:id', guard };
+                flushSync();
+
+                // Assert.
+                expect(guard).toHaveBeenCalledWith({ params: { id: 42 }, state: router.state, url: location.url });
+            });
+
+            test("Should not run the guard when the route's pattern does not match.", () => {
+                // Arrange.
+                const router = createRouter();
+                const guard = vi.fn(() => true);
+                location.url.href = buildUniverseUrl(universe, '/other');
+
+                // Act.
+                router.routes['route'] = { pattern: '/admin', guard };
+                flushSync();
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(false);
+                expect(guard).not.toHaveBeenCalled();
+            });
+
+            test("Should not match nor count as a non-match while an asynchronous guard is pending.", async () => {
+                // Arrange.
+                const router = createRouter();
+                let resolve!: (value: boolean) => void;
+                location.url.href = buildUniverseUrl(universe, '/admin');
+                router.routes['route'] = { pattern: '/admin', guard: () => new Promise<boolean>((res) => { resolve = res; }) };
+                flushSync();
+                const pendingMatch = router.routeStatus['route'].match;
+                const pendingNoMatches = router.noMatches;
+
+                // Act.
+                resolve(true);
+                await vi.waitFor(() => expect(router.routeStatus['route'].match).toBe(true));
+
+                // Assert.
+                expect(pendingMatch).toBe(false);
+                expect(pendingNoMatches).toBe(false);
+            });
+
+            test("Should not match when an asynchronous guard resolves to false.", async () => {
+                // Arrange.
+                const router = createRouter();
+                location.url.href = buildUniverseUrl(universe, '/admin');
+
+                // Act.
+                router.routes['route'] = { pattern: '/admin', guard: () => Promise.resolve(false) };
+                flushSync();
+
+                // Assert.
+                await vi.waitFor(() => expect(router.noMatches).toBe(true));
+                expect(router.routeStatus['route'].match).toBe(false);
+            });
+
+            test("Should not match when the guard throws or rejects.", async () => {
+                // Arrange.
+                const router = createRouter();
+                const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/admin');
+
+                // Act.
+                router.routes['sync'] = { pattern: '/admin', guard: () => { throw new Error("Boom."); } };
+                router.routes['async'] = { pattern: '/admin', guard: () => Promise.reject(new Error("Boom.")) };
+                flushSync();
+
+                // Assert.
+                await vi.waitFor(() => expect(router.noMatches).toBe(true));
+                expect(router.routeStatus['sync'].match).toBe(false);
+                expect(router.routeStatus['async'].match).toBe(false);
+                expect(errorSpy).toHaveBeenCalledTimes(2);
+            });
+
+            test("Should run the guard again only when the route's path changes.", () => {
+                // Arrange.
+                const router = createRouter();
+                const guard = vi.fn(() => true);
+                location.url.href = buildUniverseUrl(universe, '/users/1');
+                router.routes['route'] = { pattern: '/users/:id', guard };
+                flushSync();
+                router.exclusive = true;
+                flushSync();
+                expect(guard).toHaveBeenCalledTimes(1);
+
+                // Act.
+                location.url.href = buildUniverseUrl(universe, '/users/2');
+                flushSync();
+
+                // Assert.
+                expect(guard).toHaveBeenCalledTimes(2);
+            });
+
+            test("Should not run the guard again when the URL changes without changing the route's match.", () => {
+                // Arrange.
+                const router = createRouter();
+                const guard = vi.fn(() => Promise.resolve(true));
+                location.url.href = buildUniverseUrl(universe, '/admin/users');
+                router.routes['route'] = { pattern: '/admin/*', guard };
+                flushSync();
+                const url = new URL(location.url.href);
+                url.searchParams.set('page', '2');
+
+                // Act.
+                location.url.href = url.href;
+                flushSync();
+
+                // Assert.
+                expect(guard).toHaveBeenCalledOnce();
+            });
+
+            test("Should keep an allowed route matching while its asynchronous guard runs again.", async () => {
+                // Arrange.
+                const router = createRouter();
+                const resolvers: ((value: boolean) => void)[] = [];
+                location.url.href = buildUniverseUrl(universe, '/admin/users');
+                router.routes['route'] = { pattern: '/admin/*', guard: () => new Promise<boolean>((res) => { resolvers.push(res); }) };
+                flushSync();
+                resolvers[0](true);
+                await vi.waitFor(() => expect(router.routeStatus['route'].match).toBe(true));
+
+                // Act.
+                location.url.href = buildUniverseUrl(universe, '/admin/groups');
+                flushSync();
+                const matchWhileRunning = router.routeStatus['route'].match;
+                resolvers[1](false);
+
+                // Assert.
+                expect(resolvers).toHaveLength(2);
+                expect(matchWhileRunning).toBe(true);
+                await vi.waitFor(() => expect(router.routeStatus['route'].match).toBe(false));
+            });
+
+            test("Should ignore the result of a stale asynchronous guard.", async () => {
+                // Arrange.
+                const router = createRouter();
+                const resolvers: ((value: boolean) => void)[] = [];
+                location.url.href = buildUniverseUrl(universe, '/users/1');
+                router.routes['route'] = { pattern: '/users/:id', guard: () => new Promise<boolean>((res) => { resolvers.push(res); }) };
+                flushSync();
+                location.url.href = buildUniverseUrl(universe, '/users/2');
+                flushSync();
+
+                // Act.
+                resolvers[0](true);
+                await Promise.resolve();
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(false);
+                resolvers[1](true);
+                await vi.waitFor(() => expect(router.routeStatus['route'].match).toBe(true));
+            });
+
+            test("Should only run the guards of the routes that win the ranking in exclusive mode.", () => {
+                // Arrange.
+                const router = createRouter({ exclusive: true });
+                const winnerGuard = vi.fn(() => true);
+                const loserGuard = vi.fn(() => true);
+                location.url.href = buildUniverseUrl(universe, '/users/new');
+
+                // Act.
+                router.routes['user'] = { pattern: '/users/:id', guard: loserGuard };
+                router.routes['newUser'] = { pattern: '/users/new', guard: winnerGuard };
+                flushSync();
+
+                // Assert.
+                expect(router.routeStatus['newUser'].match).toBe(true);
+                expect(router.routeStatus['user'].match).toBe(false);
+                expect(winnerGuard).toHaveBeenCalledOnce();
+                expect(loserGuard).not.toHaveBeenCalled();
+            });
+
+            test("Should not run the guard again when route statuses are recalculated for the same URL.", () => {
+                // Arrange.
+                const router = createRouter();
+                const guard = vi.fn(() => true);
+                location.url.href = buildUniverseUrl(universe, '/admin');
+                router.routes['route'] = { pattern: '/admin', guard };
+                flushSync();
+
+                // Act.
+                router.routes['other'] = { pattern: '/other' };
+                flushSync();
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(true);
+                expect(guard).toHaveBeenCalledOnce();
+            });
+
+            test.each([
+                { text: 'synchronously', guard: () => '/login' },
+                { text: 'asynchronously', guard: () => Promise.resolve({ href: '/login', state: { from: 'admin' } }) },
+            ])("Should redirect with replace when the guard returns a redirection target $text, without counting as a non-match.", async ({ guard }) => {
+                // Arrange.
+                const router = createRouter();
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/admin');
+
+                // Act.
+                router.routes['route'] = { pattern: '/admin', guard };
+                flushSync();
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(false);
+                await vi.waitFor(() => expect(navigateSpy).toHaveBeenCalledOnce());
+                expect(navigateSpy).toHaveBeenCalledWith('/login', expect.objectContaining({
+                    replace: true,
+                    hash: resolveHashValue(universe.hash)
+                }));
+                expect(router.noMatches).toBe(false);
+            });
+        });
+
+        describe('redirect', () => {
+            afterEach(() => {
+                vi.restoreAllMocks();
+            });
+
+            test("Should redirect with replace to the target filled with the route's parameters.", () => {
+                // Arrange.
+                const router = createRouter();
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/old/42');
+
+                // Act.
+                router.routes['route'] = { pattern: '/old/:id', redirect: '/new/:id' };
+                flushSync();
+
+                // Assert.
+                expect(router.routeStatus['route'].match).toBe(false);
+                expect(navigateSpy).toHaveBeenCalledOnce();
+                expect(navigateSpy).toHaveBeenCalledWith('/new/42', expect.objectContaining({
+                    replace: true,
+                    hash: resolveHashValue(universe.hash)
+                }));
+            });
+
+            test("Should include the router's base path and pass the query string preservation setting.", () => {
+                // Arrange.
+                const router = createRouter();
+                router.basePath = '/app';
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/app/old');
+
+                // Act.
+                router.routes['route'] = { pattern: '/old', redirect: { to: '/new', preserveQuery: true } };
+                flushSync();
+
+                // Assert.
+                expect(navigateSpy).toHaveBeenCalledOnce();
+                expect(navigateSpy).toHaveBeenCalledWith('/app/new', expect.objectContaining({
+                    replace: true,
+                    preserveQuery: true
+                }));
+            });
+
+            test("Should not count as a non-matching route for fallback purposes while it would match.", () => {
+                // Arrange.
+                const router = createRouter();
+                vi.spyOn(location, 'navigate').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/old');
+
+                // Act.
+                router.routes['route'] = { pattern: '/old', redirect: '/new' };
+                flushSync();
+
+                // Assert.
+                expect(router.noMatches).toBe(false);
+            });
+
+            test("Should not repeat the redirection while it is underway.", () => {
+                // Arrange.
+                const router = createRouter();
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/old');
+                router.routes['route'] = { pattern: '/old', redirect: '/new' };
+                flushSync();
+
+                // Act.
+                router.routes['other'] = { pattern: '/other' };
+                flushSync();
+
+                // Assert.
+                expect(navigateSpy).toHaveBeenCalledOnce();
+            });
+
+            test("Should wait for the view transition that updates the URL instead of redirecting again.", async () => {
+                // Arrange.
+                const router = createRouter();
+                setViewTransitions(true);
+                const viewTransitions = stubViewTransitions();
+                const navigateSpy = vi.spyOn(location, 'navigate');
+                const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/old');
+                router.routes['route'] = { pattern: '/old', redirect: '/new' };
+                flushSync();
+
+                // Act.
+                router.routes['other'] = { pattern: '/other' };
+                flushSync();
+                const urlBeforeUpdate = location.url.href;
+                await viewTransitions.runUpdates();
+                flushSync();
+                viewTransitions.cleanup();
+                resetViewTransitions();
+
+                // Assert.
+                expect(urlBeforeUpdate).toBe(buildUniverseUrl(universe, '/old'));
+                expect(navigateSpy).toHaveBeenCalledOnce();
+                expect(location.url.href).toBe(buildUniverseUrl(universe, '/new'));
+                expect(errorSpy).not.toHaveBeenCalled();
+            });
+
+            test("Should redirect again from a URL it redirected away from once it has settled on another URL.", () => {
+                // Arrange.
+                const router = createRouter();
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation((href) => {
+                    location.url.href = buildUniverseUrl(universe, href);
+                });
+                const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/old');
+                router.routes['route'] = { pattern: '/old', redirect: '/new' };
+                flushSync();
+                flushSync();
+
+                // Act.
+                location.url.href = buildUniverseUrl(universe, '/old');
+                flushSync();
+
+                // Assert.
+                expect(navigateSpy).toHaveBeenCalledTimes(2);
+                expect(errorSpy).not.toHaveBeenCalled();
+            });
+
+            test("Should keep the redirections of different routers apart.", () => {
+                // Arrange.
+                const router1 = createRouter();
+                const router2 = createRouter();
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/old');
+
+                // Act.
+                router1.routes['route'] = { pattern: '/old', redirect: '/new' };
+                router2.routes['route'] = { pattern: '/old', redirect: '/other' };
+                flushSync();
+
+                // Assert.
+                expect(navigateSpy).toHaveBeenCalledTimes(2);
+            });
+
+            test("Should stop redirecting and log an error when a redirect loop is detected.", async () => {
+                // Arrange.
+                const router = createRouter();
+                const navigateSpy = vi.spyOn(location, 'navigate').mockImplementation((href) => {
+                    location.url.href = buildUniverseUrl(universe, href);
+                });
+                const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+                location.url.href = buildUniverseUrl(universe, '/a');
+                router.routes['a'] = { pattern: '/a', redirect: '/b' };
+                router.routes['b'] = { pattern: '/b', redirect: '/a' };
+
+                // Act.
+                for (let i = 0; i < 4; ++i) {
+                    flushSync();
+                    await Promise.resolve();
+                }
+
+                // Assert.
+                expect(navigateSpy).toHaveBeenCalledTimes(2);
+                expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Redirect loop detected'));
+            });
+        });
     });
 });
@@ -1,9 +1,14 @@
-import type { AndUntyped, Hash, PatternRouteInfo, RegexRouteInfo, RouteInfo, RouteStatus } from "../types.js";
+import type { AndUntyped, GuardRedirect, GuardResult, Hash, NavigateOptions, ParamCodecs, ParameterValue, PatternRouteInfo, PreserveQuery, RegexRouteInfo, RouteGuard, RouteInfo, RouteRedirect, RouteStatus } from "../types.js";
+import { untrack } from "svelte";
 import { traceOptions, registerRouter, unregisterRouter } from "./trace.svelte.js";
 import { location } from "./Location.js";
 import { routingOptions } from "./options.js";
 import { resolveHashValue } from "./resolveHashValue.js";
+import { getParamCodec } from "./paramCodecs.js";
+import { calculateHref } from "./calculateHref.js";
+import { logger } from "./Logger.js";
 import { assertAllowedRoutingMode } from "$lib/utils.js";
+import { TransitionCoordinator } from "./TransitionCoordinator.js";
 
 /**
  * RouterEngine's options.
@@ -24,6 +29,133 @@ export type RouterEngineOptions = {
      * for the `hashMode` option in the `init` function.
      */
     hash?: boolean | string;
+    /**
+     * Whether the router operates in exclusive mode.
+     *
+     * In exclusive mode, only the most specific route among the matching routes is reported as a match.  See
+     * {@link RouterEngine.exclusive} for details.
+     *
+     * @default false
+     */
+    exclusive?: boolean;
+}
+
+/**
+ * Defines the data of a matching route, as found in the `RouterEngine.matches` property.
+ */
+export type RouteMatch = {
+    /**
+     * The route's key.
+     */
+    key: string;
+    /**
+     * The route's parameters, if any.
+     */
+    params: RouteStatus['routeParams'];
+    /**
+     * The route's arbitrary data, as set in its `meta` property.
+     */
+    meta: Record<string, unknown> | undefined;
+    /**
+     * The router engine the route belongs to.
+     */
+    router: RouterEngine;
+};
+
+/**
+ * Options for the `RouterEngine.href` method.
+ */
+export type RouteHrefOptions = {
+    /**
+     * Query string parameters to add to the resultant HREF.
+     */
+    query?: string | URLSearchParams | Record<string, string | number | boolean | undefined>;
+    /**
+     * Whether to preserve the current query parameters (or the ones specified) in the resultant HREF.
+     */
+    preserveQuery?: PreserveQuery;
+};
+
+/**
+ * Defines the shape of the data calculated by router engines for every route definition.
+ */
+type RoutePattern = {
+    regex?: RegExp;
+    and?: AndUntyped;
+    guard?: RouteGuard;
+    redirect?: RouteRedirect;
+    ignoreForFallback: boolean;
+    paramCodecs?: ParamCodecs;
+    /**
+     * Per-segment scores used to rank matching routes in exclusive mode.
+     */
+    specificity: number[];
+    /**
+     * The patterns of routes that match several patterns, in the order they were given.
+     */
+    aliases?: RouteAlias[];
+};
+
+/**
+ * Defines the shape of the data calculated by router engines for each of the patterns of routes with aliases.
+ */
+type RouteAlias = {
+    pattern: string;
+    regex: RegExp;
+    specificity: number[];
+};
+
+/**
+ * Defines the shape of the data kept by router engines about the last execution of a route's guard.
+ */
+type GuardEntry = {
+    guard: RouteGuard;
+    /**
+     * Identifies the route's match the guard ran for.  See `guardKey()`.
+     */
+    key: string;
+    status: 'pending' | 'allowed' | 'denied' | 'redirecting';
+    /**
+     * Whether the route was allowed by the previous execution of the guard, so it keeps matching while the guard runs 
+     * again.
+     */
+    wasAllowed: boolean;
+};
+
+/**
+ * Defines the shape of the data needed to run the guard of a route that won the matching process.
+ */
+type GuardRequest = {
+    routeKey: string;
+    guard: RouteGuard;
+    key: string;
+    params: RouteStatus['routeParams'];
+};
+
+/**
+ * Defines the shape of the data needed to perform the redirection of a route that won the matching process.
+ */
+type RedirectRequest = {
+    routeKey: string;
+    redirect: RouteRedirect;
+    params: RouteStatus['routeParams'];
+};
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+    return typeof (value as PromiseLike<T>)?.then === 'function';
+}
+
+/**
+ * Builds the key that identifies a route's match, so its guard only runs again when the route matches differently.
+ * @param testPath The path the router tested the route against.
+ * @param params The route's parsed parameters.
+ * @param paramCodecs The codecs of the route's parameters.
+ * @returns The key of the route's match.
+ */
+function guardKey(testPath: string, params: RouteStatus['routeParams'], paramCodecs: ParamCodecs | undefined) {
+    const values = Object.entries(params ?? {})
+        .map(([name, value]) => `${name}=${getParamCodec(name, paramCodecs).serialize(value)}`);
+    return [testPath, ...values].join('\n');
 }
 
 function isRouterEngine(obj: unknown): obj is RouterEngine {
@@ -61,32 +193,149 @@ function routeInfoIsRegexInfo(info: unknown): info is RegexRouteInfo {
     return (info as RegexRouteInfo).regex instanceof RegExp;
 }
 
-function escapeRegExp(string: string): string {
-    return string.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+/**
+ * Fills the given route pattern with the given parameter values, which are serialized using the given codecs.
+ * @param pattern The route pattern to fill.
+ * @param params The values of the parameters.  Use the `rest` key for the value of the rest parameter.
+ * @param paramCodecs The codecs of the route's parameters.
+ * @param key The route's key, used in error messages.
+ * @returns The resulting path.
+ */
+function fillPattern(pattern: string, params: Record<string, unknown> | undefined, paramCodecs: ParamCodecs | undefined, key: string) {
+    let path = '';
+    let lastIndex = 0;
+    for (let match of pattern.matchAll(identifierRegex)) {
+        const [fullMatch, startingSlash, paramName, , optional] = match;
+        const value = params?.[paramName];
+        path += pattern.substring(lastIndex, match.index);
+        lastIndex = match.index + fullMatch.length;
+        if (value === undefined || value === null) {
+            if (!optional) {
+                throw new Error(`The value of the required parameter "${paramName}" is missing for the route with key "${key}".`);
+            }
+            continue;
+        }
+        path += (startingSlash ?? '') + encodeURIComponent(getParamCodec(paramName, paramCodecs).serialize(value));
+    }
+    path += pattern.substring(lastIndex);
+    return path.replace(restParamRegex, () => {
+        const rest = params?.rest === undefined || params.rest === null ?
+            '' :
+            String(getParamCodec('rest', paramCodecs).serialize(params.rest));
+        return (rest && !rest.startsWith('/') ? `/${rest}` : rest).split('/').map(s => encodeURIComponent(s)).join('/');
+    });
 }
 
-function tryParseValue(value: string) {
-    if (value === '' || value === undefined || value === null) {
-        return value;
-    }
-    const num = Number(value);
-    if (!isNaN(num)) {
-        return num;
+/**
+ * Parses the given raw route parameter values in place, using the given codecs.  Parameters without a value are 
+ * removed.
+ * @param routeParams The raw route parameter values.
+ * @param paramCodecs The codecs of the route's parameters.
+ * @returns `false` if a value was rejected by its codec, or `true` otherwise.
+ */
+function parseRouteParams(routeParams: RouteStatus['routeParams'], paramCodecs: ParamCodecs | undefined) {
+    for (let key in routeParams) {
+        if (routeParams[key] === undefined) {
+            delete routeParams[key];
+            continue;
+        }
+        const value = getParamCodec(key, paramCodecs).parse(decodeURIComponent(routeParams[key] as string));
+        if (value === undefined) {
+            // Values rejected by their codec make the route not match.
+            return false;
+        }
+        routeParams[key] = value as ParameterValue;
     }
-    if (value === 'true') {
-        return true;
+    return true;
+}
+
+function toQueryString(query: RouteHrefOptions['query']) {
+    if (!query || typeof query === 'string' || query instanceof URLSearchParams) {
+        return query?.toString() ?? '';
     }
-    if (value === 'false') {
-        return false;
+    const searchParams = new URLSearchParams();
+    for (let [key, value] of Object.entries(query)) {
+        if (value !== undefined) {
+            searchParams.append(key, String(value));
+        }
     }
-    return value;
+    return searchParams.toString();
+}
+
+function escapeRegExp(string: string): string {
+    return string.replace(/[.+^${}()|[\]\\]/g, '\\$&');
 }
 
-const identifierRegex = /(\/)?:([a-zA-Z_]\w*)(\?)?/g;
-const paramNamePlaceholder = "paramName";
-const paramValueRegex = `(?<${paramNamePlaceholder}>[^/]+)`;
+/**
+ * Regular expression that finds parameters in route patterns.  The capturing groups are:
+ *
+ * 1. The slash that precedes the parameter, if any.
+ * 2. The parameter's name.
+ * 3. The parameter's constraint (the regular expression inside the parentheses), if any.  Up to one level of nested
+ * parentheses is supported.
+ * 4. The question mark that makes the parameter optional, if any.
+ */
+const identifierRegex = /(\/)?:([a-zA-Z_]\w*)(?:\(((?:[^()\\]|\\.|\((?:[^()\\]|\\.)*\))+)\))?(\?)?/g;
+const defaultParamValueRegex = '[^/]+';
 const restParamRegex = /\/\*$/;
 
+/**
+ * Scores given to the segments of route patterns when calculating their specificity.
+ */
+const segmentScores = {
+    /**
+     * Score used for routes whose specificity cannot be calculated (regular expressions or no pattern at all).
+     */
+    unknown: 0,
+    rest: 1,
+    optionalParam: 2,
+    param: 3,
+    constrainedParam: 4,
+    static: 5,
+    /**
+     * Score used when comparing against a pattern that has no more segments.  A pattern that has run out of segments
+     * is more specific than one that requires more (possibly zero-length) segments to match the same path.
+     */
+    exhausted: 6,
+} as const;
+
+/**
+ * Calculates the specificity of a route pattern, which is used to rank matching routes in exclusive mode.
+ * @param pattern The route pattern.
+ * @returns An array with the score of each of the pattern's segments.
+ */
+function patternSpecificity(pattern: string) {
+    return pattern.split('/').filter(s => s.length > 0).map(segment => {
+        if (segment === '*') {
+            return segmentScores.rest;
+        }
+        const params = [...segment.matchAll(identifierRegex)];
+        if (!params.length) {
+            return segmentScores.static;
+        }
+        const required = params.filter(p => !p[4]);
+        if (!required.length) {
+            return segmentScores.optionalParam;
+        }
+        return required.some(p => p[3]) ? segmentScores.constrainedParam : segmentScores.param;
+    });
+}
+
+/**
+ * Compares the specificity of two routes.
+ * @returns A positive number if `a` is more specific than `b`, a negative number if `b` is more specific than `a`, or
+ * zero if both are equally specific.
+ */
+function compareSpecificity(a: number[], b: number[]) {
+    for (let i = 0; i < Math.max(a.length, b.length); ++i) {
+        const diff = (a[i] ?? segmentScores.exhausted) - (b[i] ?? segmentScores.exhausted);
+        if (diff) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
 /**
  * Internal key used to access the route patterns of a router engine.
  */
@@ -96,10 +345,13 @@ export const routePatternsKey = Symbol();
  * Router class that fuels the `Router` component.  It is used to define routes and monitor the current URL.
  * 
  * This class can be used in JavaScript code if you prefer routing in JavaScript over routing using the `Router` and 
- * `Route` components.
+ * `Route` components.  Router engines run effects (to run route guards and perform redirections) that outlive the 
+ * component or effect that creates them, so engines created in code must be disposed by calling their `dispose()` 
+ * method once they are no longer needed.  The `Router` component disposes the engines it creates.
  */
 export class RouterEngine {
     #cleanup = false;
+    #disposeEffects: () => void;
     #parent: RouterEngine | undefined;
     #resolvedHash: Hash;
     #hashId: string | undefined;
@@ -107,6 +359,26 @@ export class RouterEngine {
      * Gets or sets the router's identifier.  This is displayed by the `RouterTracer` component.
      */
     id = $state<string>();
+    /**
+     * Gets or sets whether the router operates in exclusive mode.
+     *
+     * Routers normally evaluate all routes independently, so more than one route may match at any given time.  In
+     * exclusive mode, the matching routes are ranked by specificity, and only the most specific one is reported as a
+     * match.  Patterns are compared segment by segment:  Static segments beat segments with constrained parameters,
+     * which beat segments with parameters, which beat segments with optional parameters, which in turn beat the rest
+     * parameter.  Routes defined with regular expressions or without a pattern rank the lowest.  Ties are won by the
+     * route that was defined first.
+     *
+     * Routes that are ignored for fallback purposes don't participate in the ranking, and match independently.
+     *
+     * @default false
+     */
+    exclusive = $state(false);
+    /**
+     * Gets the coordinator of the transitions of the router's routes.  Set its `mode` property to control the order 
+     * in which the content of outgoing and incoming routes animates.
+     */
+    readonly transitions = new TransitionCoordinator();
     /**
      * Gets or sets a reactive object that contains the route definitions.  The keys are the route names, and the values 
      * are the route definitions.
@@ -120,6 +392,19 @@ export class RouterEngine {
      * @default '/'
      */
     #basePath = $state<string>('/');
+    /**
+     * Results of the last execution of the routes' guards, where the keys are the route keys.
+     */
+    #guardEntries = new Map<string, GuardEntry>();
+    /**
+     * Signal that is incremented whenever an asynchronous guard settles, so route statuses are recalculated.
+     */
+    #guardVersion = $state(0);
+    /**
+     * URL's that have been redirected away from since the router last settled on a URL, in order.  Used to detect 
+     * redirect loops and to avoid repeating redirections.
+     */
+    #redirectChain = new Set<string>();
     /**
      * Calculates the route patterns to be used for matching the current URL.
      * 
@@ -128,11 +413,19 @@ export class RouterEngine {
     #routePatterns = $derived(Object.entries(this.routes).reduce((map, [key, route]) => {
         map.set(
             key, routeInfoIsRegexInfo(route) ?
-            { regex: route.regex, and: route.and, ignoreForFallback: !!route.ignoreForFallback } :
+            {
+                regex: route.regex,
+                and: route.and,
+                guard: route.guard,
+                redirect: route.redirect,
+                ignoreForFallback: !!route.ignoreForFallback,
+                paramCodecs: route.paramCodecs,
+                specificity: [segmentScores.unknown]
+            } :
             this.#parseRoutePattern(route)
         );
         return map;
-    }, new Map<string, { regex?: RegExp; and?: AndUntyped; ignoreForFallback: boolean; }>()));
+    }, new Map<string, RoutePattern>()));
 
     [routePatternsKey]() {
         return this.#routePatterns;
@@ -142,64 +435,319 @@ export class RouterEngine {
 
     #routeStatusData = $derived.by(() => {
         const routeStatus = {} as Record<string, RouteStatus>;
-        let noMatches = true;
+        // Specificity of the matching alias of routes with aliases.
+        const aliasSpecificity = new Map<string, number[]>();
         for (let routeKey of Object.keys(this.routes)) {
             const pattern = this.#routePatterns.get(routeKey)!;
-            const matches = pattern.regex ? pattern.regex.exec(this.testPath) : null;
-            const routeParams = matches?.groups ? { ...matches.groups } as RouteStatus['routeParams'] : undefined;
-            if (routeParams) {
-                for (let key in routeParams) {
-                    if (routeParams[key] === undefined) {
-                        delete routeParams[key];
-                        continue;
-                    }
-                    routeParams[key] = tryParseValue(decodeURIComponent(routeParams[key] as string));
+            let matches: RegExpExecArray | null = null;
+            let routeParams: RouteStatus['routeParams'];
+            let validParams = true;
+            let alias: RouteAlias | undefined;
+            // Aliases are tried in order, and the first one that matches wins.
+            for (let candidate of pattern.aliases ?? [pattern]) {
+                matches = candidate.regex ? candidate.regex.exec(this.testPath) : null;
+                routeParams = matches?.groups ? { ...matches.groups } as RouteStatus['routeParams'] : undefined;
+                validParams = parseRouteParams(routeParams, pattern.paramCodecs);
+                if (matches && validParams) {
+                    alias = pattern.aliases ? candidate as RouteAlias : undefined;
+                    break;
                 }
             }
-            const match = (!!matches || !pattern.regex) && (!pattern.and || pattern.and(routeParams));
-            noMatches = noMatches && (pattern.ignoreForFallback ? true : !match);
             routeStatus[routeKey] = {
-                match,
+                match: (!!matches || !pattern.regex) && validParams && (!pattern.and || pattern.and(routeParams)),
                 routeParams,
             };
+            if (alias) {
+                routeStatus[routeKey].alias = alias.pattern;
+                aliasSpecificity.set(routeKey, alias.specificity);
+            }
         }
-        return [routeStatus, noMatches] as const;
+        if (this.exclusive) {
+            let bestKey: string | undefined;
+            for (let [routeKey, status] of Object.entries(routeStatus)) {
+                const pattern = this.#routePatterns.get(routeKey)!;
+                if (!status.match || pattern.ignoreForFallback) {
+                    continue;
+                }
+                if (bestKey === undefined) {
+                    bestKey = routeKey;
+                }
+                else if (compareSpecificity(
+                    aliasSpecificity.get(routeKey) ?? pattern.specificity,
+                    aliasSpecificity.get(bestKey) ?? this.#routePatterns.get(bestKey)!.specificity
+                ) > 0) {
+                    routeStatus[bestKey].match = false;
+                    bestKey = routeKey;
+                }
+                else {
+                    status.match = false;
+                }
+            }
+        }
+        // Guards are only consulted for the routes that won the matching process.
+        const guards: GuardRequest[] = [];
+        const redirects: RedirectRequest[] = [];
+        let noMatches = true;
+        // Whether the router has reached its final decision for the current URL.
+        let settled = true;
+        for (let [routeKey, status] of Object.entries(routeStatus)) {
+            const pattern = this.#routePatterns.get(routeKey)!;
+            // Routes with pending guards or that redirect neither match nor count as non-matching routes.
+            let undecided = false;
+            if (status.match && pattern.guard) {
+                const key = guardKey(this.testPath, status.routeParams, pattern.paramCodecs);
+                guards.push({ routeKey, guard: pattern.guard, key, params: status.routeParams });
+                const guardStatus = this.#guardStatus(routeKey, pattern.guard, key);
+                status.match = guardStatus === 'allowed';
+                undecided = guardStatus === 'pending' || guardStatus === 'redirecting';
+            }
+            if (status.match && pattern.redirect) {
+                redirects.push({ routeKey, redirect: pattern.redirect, params: status.routeParams });
+                status.match = false;
+                undecided = true;
+            }
+            settled = settled && !undecided;
+            noMatches = noMatches && (pattern.ignoreForFallback ? true : !status.match && !undecided);
+        }
+        return { routeStatus, noMatches, guards, redirects, settled };
     });
     /**
      * Gets a a record of route statuses where the keys are the route keys, and the values are 
      * objects that contain a `match` property and a `routeParams` property.
      */
-    routeStatus = $derived(this.#routeStatusData[0]);
+    routeStatus = $derived(this.#routeStatusData.routeStatus);
     /**
      * Gets a boolean value that indicates whether the current URL matches none of the route 
      * patterns.
      */
-    noMatches = $derived(this.#routeStatusData[1]);
+    noMatches = $derived(this.#routeStatusData.noMatches);
+    /**
+     * Gets the matching routes of the chain of routers that ends in this router, ordered from the root router's 
+     * routes down to this router's routes.
+     * 
+     * Use the innermost router's matches to learn which routes are active, from root to leaf (to build breadcrumbs or 
+     * to check permissions, for example).
+     */
+    matches: readonly RouteMatch[] = $derived.by(() => [
+        ...(this.#parent?.matches ?? []),
+        ...Object.entries(this.routeStatus)
+            .filter(([, status]) => status.match)
+            .map(([key, status]) => ({
+                key,
+                params: status.routeParams,
+                meta: this.routes[key]?.meta,
+                router: this,
+            }))
+    ]);
+    /**
+     * Gets the status of the last execution of the given route guard for the route's current match.  Guards that 
+     * haven't run for the route's current match yet are reported as pending, unless the route was allowed before.
+     */
+    #guardStatus(routeKey: string, guard: RouteGuard, key: string) {
+        // Subscribe to the execution and settlement of guards.
+        this.#guardVersion;
+        const entry = this.#guardEntries.get(routeKey);
+        if (entry?.guard !== guard) {
+            return 'pending';
+        }
+        const status = entry.key === key ? entry.status : 'pending';
+        // Allowed routes keep matching (and their content stays mounted) while their guard runs again.
+        return status === 'pending' && (entry.status === 'allowed' || entry.wasAllowed) ? 'allowed' : status;
+    }
+
+    /**
+     * Runs the guards of the routes that won the matching process, unless they have already run for the routes' 
+     * current matches.
+     * 
+     * This runs as an effect, so guards run once per match, and not every time route statuses are calculated.
+     */
+    #runGuards(guards: GuardRequest[]) {
+        let ran = false;
+        for (let routeKey of this.#guardEntries.keys()) {
+            if (!guards.some(g => g.routeKey === routeKey)) {
+                this.#guardEntries.delete(routeKey);
+            }
+        }
+        for (let { routeKey, guard, key, params } of guards) {
+            ran = this.#runGuard(routeKey, guard, key, params) || ran;
+        }
+        if (ran) {
+            this.#guardVersion++;
+        }
+    }
+
+    /**
+     * Runs the given route guard, unless it has already run for the route's current match.
+     * 
+     * Asynchronous results are applied when the guard settles, as long as the guard is not run again in the meantime.
+     * @returns `true` if the guard ran; `false` otherwise.
+     */
+    #runGuard(routeKey: string, guard: RouteGuard, key: string, params: RouteStatus['routeParams']) {
+        const lastEntry = this.#guardEntries.get(routeKey);
+        if (lastEntry?.guard === guard && lastEntry.key === key) {
+            return false;
+        }
+        const wasAllowed = lastEntry?.guard === guard &&
+            (lastEntry.status === 'allowed' || (lastEntry.status === 'pending' && lastEntry.wasAllowed));
+        const entry: GuardEntry = { guard, key, status: 'pending', wasAllowed };
+        this.#guardEntries.set(routeKey, entry);
+        const settle = (result: GuardResult) => {
+            if (result === true || result === false) {
+                entry.status = result ? 'allowed' : 'denied';
+                return;
+            }
+            entry.status = 'redirecting';
+            return result;
+        };
+        let result: GuardResult | PromiseLike<GuardResult>;
+        try {
+            result = guard({ params, state: this.state, url: location.url });
+        }
+        catch (err) {
+            logger.error(`The guard of route "${routeKey}" threw an error.`, err);
+            entry.status = 'denied';
+            return true;
+        }
+        if (isPromiseLike<GuardResult>(result)) {
+            result.then(
+                (asyncResult) => {
+                    if (this.#guardEntries.get(routeKey) !== entry) {
+                        return;
+                    }
+                    const redirect = settle(asyncResult);
+                    this.#guardVersion++;
+                    if (redirect) {
+                        this.#redirect(redirect);
+                    }
+                },
+                (err) => {
+                    if (this.#guardEntries.get(routeKey) !== entry) {
+                        return;
+                    }
+                    logger.error(`The guard of route "${routeKey}" threw an error.`, err);
+                    entry.status = 'denied';
+                    this.#guardVersion++;
+                }
+            );
+            return true;
+        }
+        const redirect = settle(result);
+        if (redirect) {
+            this.#redirect(redirect);
+        }
+        return true;
+    }
+
+    /**
+     * Performs the redirections requested by the routes that won the matching process, or ends the current chain of 
+     * redirections once the router settles on a URL.
+     * 
+     * This runs as an effect, because navigation cannot happen while route statuses are being calculated.
+     */
+    #applyRedirects(redirects: RedirectRequest[], settled: boolean) {
+        if (settled) {
+            this.#redirectChain.clear();
+            return;
+        }
+        // Only one redirection can take place, as it changes the URL.
+        const [first] = redirects;
+        if (first) {
+            this.#redirectRoute(first.routeKey, first.redirect, first.params);
+        }
+    }
+
+    #redirect(target: GuardRedirect) {
+        const from = location.url.href;
+        if (this.#redirectChain.has(from)) {
+            if ([...this.#redirectChain].at(-1) !== from) {
+                logger.error(`Redirect loop detected:  ${[...this.#redirectChain, from].join(' -> ')}.  The redirection to "${typeof target === 'string' ? target : target.href}" was not performed.`);
+            }
+            // Otherwise, the redirection away from this URL is already underway, possibly waiting for a view transition 
+            // to update the URL.
+            return;
+        }
+        this.#redirectChain.add(from);
+        const { href, ...options } = typeof target === 'string' ? { href: target } : target;
+        location.navigate(href, { hash: this.#resolvedHash, ...options, replace: true } as NavigateOptions);
+    }
+
+    #redirectRoute(routeKey: string, redirect: RouteRedirect, params: RouteStatus['routeParams']) {
+        const { to, preserveQuery } = typeof redirect === 'string' ? { to: redirect } : redirect;
+        let href: string;
+        try {
+            href = fillPattern(
+                joinPaths(this.basePath, to === '/' ? '' : to),
+                params,
+                this.#routes[routeKey]?.paramCodecs,
+                routeKey
+            ) || '/';
+        }
+        catch (err) {
+            logger.error(`The redirection of route "${routeKey}" could not be resolved.`, err);
+            return;
+        }
+        this.#redirect({ href, preserveQuery });
+    }
+
     /**
      * Parses the string pattern in the provided route information object into a regular expression.
      * @param routeInfo Pattern route information to parse.
      * @returns An object with the regular expression and the optional predicate function.
      */
-    #parseRoutePattern(routeInfo: PatternRouteInfo): { regex?: RegExp; and?: AndUntyped; ignoreForFallback: boolean; } {
-        if (!routeInfo.pattern) {
+    #parseRoutePattern(routeInfo: PatternRouteInfo): RoutePattern {
+        if (!routeInfo.pattern?.length) {
             return {
                 and: routeInfo.and,
-                ignoreForFallback: !!routeInfo.ignoreForFallback
+                guard: routeInfo.guard,
+                redirect: routeInfo.redirect,
+                ignoreForFallback: !!routeInfo.ignoreForFallback,
+                paramCodecs: routeInfo.paramCodecs,
+                specificity: [segmentScores.unknown]
             }
         }
-        const fullPattern = joinPaths(this.basePath, routeInfo.pattern === '/' ? '' : routeInfo.pattern);
-        const escapedPattern = escapeRegExp(fullPattern);
-        let regexPattern = escapedPattern.replace(identifierRegex, (_match, startingSlash, paramName, optional, offset) => {
-            let regex = paramValueRegex.replace(paramNamePlaceholder, paramName);
-            return (startingSlash ? `/${optional ? '?' : ''}` : '')
-                + (optional ? `(?:${regex})?` : regex);
-        });
-        regexPattern = regexPattern.replace(restParamRegex, `(?<rest>.*)`);
-        return {
-            regex: new RegExp(`^${regexPattern}$`, routeInfo.caseSensitive ? undefined : 'i'),
+        const common = {
             and: routeInfo.and,
-            ignoreForFallback: !!routeInfo.ignoreForFallback
+            guard: routeInfo.guard,
+            redirect: routeInfo.redirect,
+            ignoreForFallback: !!routeInfo.ignoreForFallback,
+            paramCodecs: routeInfo.paramCodecs,
         };
+        if (Array.isArray(routeInfo.pattern)) {
+            const aliases = routeInfo.pattern.map(pattern => ({
+                pattern,
+                regex: this.#patternRegex(pattern, routeInfo.caseSensitive),
+                specificity: patternSpecificity(pattern)
+            }));
+            return {
+                ...common,
+                regex: aliases[0].regex,
+                specificity: aliases[0].specificity,
+                aliases
+            };
+        }
+        return {
+            ...common,
+            regex: this.#patternRegex(routeInfo.pattern, routeInfo.caseSensitive),
+            specificity: patternSpecificity(routeInfo.pattern)
+        };
+    }
+
+    #patternRegex(pattern: string, caseSensitive: boolean | undefined) {
+        const fullPattern = joinPaths(this.basePath, pattern === '/' ? '' : pattern);
+        // Static portions of the pattern are escaped, but parameter constraints are regular expressions already.
+        let regexPattern = '';
+        let lastIndex = 0;
+        for (let match of fullPattern.matchAll(identifierRegex)) {
+            const [fullMatch, startingSlash, paramName, constraint, optional] = match;
+            const regex = `(?<${paramName}>${constraint ?? defaultParamValueRegex})`;
+            regexPattern += escapeRegExp(fullPattern.substring(lastIndex, match.index))
+                + (startingSlash ? `/${optional ? '?' : ''}` : '')
+                + (optional ? `(?:${regex})?` : regex);
+            lastIndex = match.index + fullMatch.length;
+        }
+        regexPattern += escapeRegExp(fullPattern.substring(lastIndex));
+        regexPattern = regexPattern.replace(restParamRegex, `(?<rest>.*)`);
+        return new RegExp(`^${regexPattern}$`, caseSensitive ? undefined : 'i');
     }
     /**
      * Initializes a new instance of this class with the specified options.
@@ -219,6 +767,7 @@ export class RouterEngine {
         }
         else {
             this.#parent = parentOrOpts?.parent;
+            this.exclusive = !!parentOrOpts?.exclusive;
             this.#resolvedHash = this.#parent && parentOrOpts?.hash === undefined ? this.#parent.#resolvedHash : resolveHashValue(parentOrOpts?.hash);
             if (this.#parent && this.#resolvedHash !== this.#parent.#resolvedHash) {
                 throw new Error("The parent router's hash mode must match the child router's hash mode.");
@@ -238,6 +787,16 @@ export class RouterEngine {
             registerRouter(this);
             this.#cleanup = true;
         }
+        this.#disposeEffects = $effect.root(() => {
+            $effect.pre(() => {
+                const guards = this.#routeStatusData.guards;
+                untrack(() => this.#runGuards(guards));
+            });
+            $effect.pre(() => {
+                const { redirects, settled } = this.#routeStatusData;
+                untrack(() => this.#applyRedirects(redirects, settled));
+            });
+        });
     }
     /**
      * Gets the browser's current URL.
@@ -291,7 +850,58 @@ export class RouterEngine {
     get parent() {
         return this.#parent;
     }
+    /**
+     * Builds the path that leads to the specified route, without adapting it to the router's routing universe.
+     * 
+     * The route's pattern (including the router's base path) is filled with the given parameter values, which are 
+     * serialized using the parameter codecs that apply to the route.  Routes with aliases use their first pattern.
+     * @param key The route's key.
+     * @param params The values of the route's parameters.  Use the `rest` key for the value of the rest parameter.
+     * @returns The path for the route.
+     */
+    routePath(key: string, params?: Record<string, unknown>) {
+        const routeInfo = this.#routes[key];
+        if (!routeInfo) {
+            throw new Error(`There is no route with key "${key}" in this router.`);
+        }
+        const pattern = routeInfoIsRegexInfo(routeInfo) ?
+            undefined :
+            (Array.isArray(routeInfo.pattern) ? routeInfo.pattern[0] : routeInfo.pattern);
+        if (!pattern) {
+            throw new Error(`The route with key "${key}" has no pattern to build the path from.`);
+        }
+        const fullPattern = joinPaths(this.basePath, pattern === '/' ? '' : pattern);
+        return fillPattern(fullPattern, params, routeInfo.paramCodecs, key) || '/';
+    }
+    /**
+     * Builds the HREF that leads to the specified route, for the router's routing universe.
+     * 
+     * The route's pattern (including the router's base path) is filled with the given parameter values, which are 
+     * serialized using the parameter codecs that apply to the route.
+     * @param key The route's key.
+     * @param params The values of the route's parameters.  Use the `rest` key for the value of the rest parameter.
+     * @param options Options that control how the HREF is calculated.
+     * @returns The HREF for the route.
+     */
+    href(key: string, params?: Record<string, unknown>, options?: RouteHrefOptions) {
+        const path = this.routePath(key, params);
+        const query = toQueryString(options?.query);
+        return calculateHref(
+            {
+                hash: this.#resolvedHash,
+                preserveQuery: options?.preserveQuery
+            },
+            query ? `${path}?${query}` : path
+        );
+    }
+    /**
+     * Disposes the router engine, stopping its effects.
+     * 
+     * This is mandatory for engines created in code:  Their effects keep running (and their guards and redirections 
+     * keep reacting to URL changes) until this method is called.
+     */
     dispose() {
+        this.#disposeEffects();
         if (this.#cleanup) {
             unregisterRouter(this);
         }
@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { ScrollManager, preventScrollManagement } from "./ScrollManager.js";
+import { LocationLite } from "./LocationLite.svelte.js";
+import { MemoryHistoryApi } from "./MemoryHistoryApi.svelte.js";
+
+/**
+ * Waits for the scroll manager to act on the last navigation.
+ */
+function settle() {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("ScrollManager", () => {
+    let location: LocationLite;
+    let scrollManager: ScrollManager;
+    let scrollTo: ReturnType<typeof vi.fn>;
+    let container: HTMLElement;
+
+    function setWindowScroll(y: number) {
+        Object.defineProperty(globalThis.window, 'scrollY', { value: y, configurable: true });
+    }
+
+    beforeEach(() => {
+        scrollTo = vi.fn();
+        vi.spyOn(globalThis.window, 'scrollTo').mockImplementation(scrollTo);
+        setWindowScroll(0);
+        container = document.createElement('div');
+        container.setAttribute('data-scroll-container', 'list');
+        document.body.appendChild(container);
+        location = new LocationLite(new MemoryHistoryApi('http://example.com/'));
+        scrollManager = new ScrollManager(location);
+    });
+
+    afterEach(() => {
+        scrollManager.dispose();
+        location.dispose();
+        container.remove();
+        vi.restoreAllMocks();
+    });
+
+    test("Should turn off the browser's scroll restoration, and turn it back on when disposed.", () => {
+        // Arrange.
+        globalThis.window.history.scrollRestoration = 'auto';
+        const manager = new ScrollManager(location);
+        const whileActive = globalThis.window.history.scrollRestoration;
+
+        // Act.
+        manager.dispose();
+
+        // Assert.
+        expect(whileActive).toBe('manual');
+        expect(globalThis.window.history.scrollRestoration).toBe('auto');
+    });
+
+    test("Should scroll the window and the scroll containers to the top when pushing.", async () => {
+        // Arrange.
+        container.scrollTop = 120;
+
+        // Act.
+        location.goTo('/a');
+        await settle();
+
+        // Assert.
+        expect(scrollTo).toHaveBeenCalledWith(0, 0);
+        expect(container.scrollTop).toBe(0);
+    });
+
+    test("Should restore the recorded scroll positions when the history is traversed.", async () => {
+        // Arrange.
+        setWindowScroll(300);
+        container.scrollTop = 120;
+        location.goTo('/a');
+        await settle();
+        setWindowScroll(0);
+        scrollTo.mockClear();
+
+        // Act.
+        location.back();
+        await settle();
+
+        // Assert.
+        expect(scrollTo).toHaveBeenCalledExactlyOnceWith(0, 300);
+        expect(container.scrollTop).toBe(120);
+    });
+
+    test("Should scroll the element targeted by the URL's hash into view.", async () => {
+        // Arrange.
+        const anchor = document.createElement('h2');
+        anchor.id = 'section';
+        anchor.scrollIntoView = vi.fn();
+        document.body.appendChild(anchor);
+
+        // Act.
+        location.goTo('/a#section');
+        await settle();
+
+        // Assert.
+        expect(anchor.scrollIntoView).toHaveBeenCalledOnce();
+        expect(scrollTo).not.toHaveBeenCalled();
+        anchor.remove();
+    });
+
+    test("Should not change the scroll position when replacing.", async () => {
+        // Act.
+        location.goTo('/a', { replace: true });
+        await settle();
+
+        // Assert.
+        expect(scrollTo).not.toHaveBeenCalled();
+    });
+
+    test("Should not change the scroll position while scroll management is prevented.", async () => {
+        // Arrange.
+        const lift = preventScrollManagement();
+
+        // Act.
+        location.goTo('/a');
+        await settle();
+        lift();
+
+        // Assert.
+        expect(scrollTo).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,144 @@
+import { tick } from "svelte";
+import type { AfterNavigateEvent, Location } from "../types.js";
+
+/**
+ * Defines the scroll positions recorded for a history entry.
+ */
+type ScrollPositions = {
+    /**
+     * The window's scroll position.
+     */
+    window: [number, number];
+    /**
+     * The scroll positions of the registered scroll containers, by container identifier.
+     */
+    containers: Record<string, [number, number]>;
+};
+
+/**
+ * Name of the attribute that registers elements as scroll containers.  Its value identifies the container.
+ */
+export const scrollContainerAttribute = 'data-scroll-container';
+
+let optOutCount = 0;
+
+/**
+ * Prevents the scroll manager from changing the scroll position after navigation, until the returned function is
+ * called.  Routes use it to opt out of scroll management while they match.
+ * @returns A function that lifts the prevention.
+ */
+export function preventScrollManagement() {
+    ++optOutCount;
+    let lifted = false;
+    return () => {
+        if (!lifted) {
+            lifted = true;
+            --optOutCount;
+        }
+    };
+}
+
+function getScrollContainers() {
+    return Array.from(globalThis.document?.querySelectorAll<HTMLElement>(`[${scrollContainerAttribute}]`) ?? []);
+}
+
+/**
+ * Scroll manager that records the scroll positions of the window and the registered scroll containers per history
+ * entry.
+ *
+ * History traversals restore the positions recorded for the entry the user moves to, while pushed entries start at
+ * the top, or at the element targeted by the URL's hash (its anchor), if there is one.  Replacing entries does not
+ * change the scroll position.
+ *
+ * Recorded positions are kept in memory, so they don't survive page reloads.
+ */
+export class ScrollManager {
+    #location: Location;
+    #positions = new Map<string, ScrollPositions>();
+    #currentKey: string | undefined;
+    #originalScrollRestoration: ScrollRestoration | undefined;
+    #navigationCount = 0;
+    #cleanupFunctions: (() => void)[] = [];
+
+    constructor(location: Location) {
+        this.#location = location;
+        this.#currentKey = this.#getCurrentKey();
+        if (globalThis.window?.history) {
+            this.#originalScrollRestoration = globalThis.window.history.scrollRestoration;
+            globalThis.window.history.scrollRestoration = 'manual';
+        }
+        this.#cleanupFunctions.push(
+            location.on('navigationStart', this.#handleNavigationStart),
+            location.on('afterNavigate', this.#handleAfterNavigate)
+        );
+    }
+
+    #getCurrentKey() {
+        const index = this.#location.index;
+        return this.#location.entries.find(e => e.index === index)?.key;
+    }
+
+    #record() {
+        if (!this.#currentKey || !globalThis.window) {
+            return;
+        }
+        const containers: Record<string, [number, number]> = {};
+        for (let container of getScrollContainers()) {
+            containers[container.getAttribute(scrollContainerAttribute)!] = [container.scrollLeft, container.scrollTop];
+        }
+        this.#positions.set(this.#currentKey, {
+            window: [globalThis.window.scrollX ?? 0, globalThis.window.scrollY ?? 0],
+            containers,
+        });
+    }
+
+    #handleNavigationStart = () => {
+        this.#record();
+    }
+
+    #handleAfterNavigate = (event: AfterNavigateEvent) => {
+        this.#currentKey = this.#getCurrentKey();
+        const navigationCount = ++this.#navigationCount;
+        const saved = this.#currentKey ? this.#positions.get(this.#currentKey) : undefined;
+        // Wait for the content of the new URL to render.
+        tick().then(() => {
+            if (navigationCount !== this.#navigationCount || optOutCount > 0) {
+                return;
+            }
+            if (event.type === 'pop' && saved) {
+                this.#restore(saved);
+            }
+            else if (event.type !== 'replace' && event.url !== event.previousUrl) {
+                this.#scrollToAnchorOrTop(new URL(event.url));
+            }
+        });
+    }
+
+    #restore(positions: ScrollPositions) {
+        globalThis.window?.scrollTo(...positions.window);
+        for (let container of getScrollContainers()) {
+            const position = positions.containers[container.getAttribute(scrollContainerAttribute)!];
+            [container.scrollLeft, container.scrollTop] = position ?? [0, 0];
+        }
+    }
+
+    #scrollToAnchorOrTop(url: URL) {
+        const anchor = url.hash.length > 1 ?
+            globalThis.document?.getElementById(decodeURIComponent(url.hash.substring(1))) :
+            null;
+        if (anchor) {
+            anchor.scrollIntoView();
+            return;
+        }
+        this.#restore({ window: [0, 0], containers: {} });
+    }
+
+    dispose() {
+        this.#cleanupFunctions.forEach(cleanup => cleanup());
+        this.#cleanupFunctions = [];
+        this.#positions.clear();
+        if (this.#originalScrollRestoration && globalThis.window?.history) {
+            globalThis.window.history.scrollRestoration = this.#originalScrollRestoration;
+        }
+    }
+}
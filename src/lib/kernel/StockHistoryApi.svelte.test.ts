@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
 import { StockHistoryApi } from "./StockHistoryApi.svelte.js";
 import { setupBrowserMocks } from "$test/test-utils.js";
+import { navigationDirectionAttribute, resetViewTransitions, setViewTransitions } from "./viewTransitions.js";
 
 describe("StockHistoryApi", () => {
     const initialUrl = "http://example.com/";
@@ -23,10 +24,32 @@ describe("StockHistoryApi", () => {
             expect(historyApi.url.href).toBe(initialUrl);
             expect(historyApi.state).toEqual({
                 path: undefined,
-                hash: {}
+                hash: {},
+                index: 0,
+                key: expect.any(String)
             });
         });
 
+        test("Should number the history entry it was created in.", () => {
+            // Assert.
+            expect(browserMocks.history.replaceState).toHaveBeenCalledWith(historyApi.state, '', initialUrl);
+        });
+
+        test("Should not renumber a history entry that already has an index.", () => {
+            // Arrange.
+            const state = { path: 'data', hash: {}, index: 3, key: 'entry-key' };
+            browserMocks.setState(state);
+            browserMocks.history.replaceState.mockClear();
+
+            // Act.
+            const otherApi = new StockHistoryApi();
+
+            // Assert.
+            expect(otherApi.state).toEqual(state);
+            expect(browserMocks.history.replaceState).not.toHaveBeenCalled();
+            otherApi.dispose();
+        });
+
         test("Should accept initial URL and state parameters.", () => {
             // Arrange.
             const customUrl = "http://example.com/custom";
@@ -139,7 +162,7 @@ describe("StockHistoryApi", () => {
 
             // Assert.
             expect(pushStateSpy).toHaveBeenCalledWith(
-                testState,
+                { ...testState, index: 1, key: expect.any(String) },
                 "",
                 testUrl
             );
@@ -155,7 +178,7 @@ describe("StockHistoryApi", () => {
 
             // Assert.
             expect(historyApi.url.href).toBe(testUrl);
-            expect(historyApi.state).toEqual(testState);
+            expect(historyApi.state).toEqual({ ...testState, index: 1, key: expect.any(String) });
         });
     });
 
@@ -171,7 +194,7 @@ describe("StockHistoryApi", () => {
 
             // Assert.
             expect(replaceStateSpy).toHaveBeenCalledWith(
-                testState,
+                { ...testState, index: 0, key: expect.any(String) },
                 "",
                 testUrl
             );
@@ -187,7 +210,7 @@ describe("StockHistoryApi", () => {
 
             // Assert.
             expect(historyApi.url.href).toBe(testUrl);
-            expect(historyApi.state).toEqual(testState);
+            expect(historyApi.state).toEqual({ ...testState, index: 0, key: expect.any(String) });
         });
     });
 
@@ -258,6 +281,74 @@ describe("StockHistoryApi", () => {
                 newUrl
             );
         });
+
+        test.each([
+            { stateFn: 'pushState' as const, type: 'push' },
+            { stateFn: 'replaceState' as const, type: 'replace' },
+        ])("Should raise the navigated notification with type $type after calling $stateFn.", ({ stateFn, type }) => {
+            // Arrange.
+            const callback = vi.fn(() => expect(historyApi.url.href).toBe("http://example.com/new"));
+            historyApi.onNavigated(callback);
+
+            // Act.
+            historyApi[stateFn]({ path: 1, hash: {} }, '', "http://example.com/new");
+
+            // Assert.
+            expect(callback).toHaveBeenCalledExactlyOnceWith(type);
+        });
+
+        test("Should raise the navigated notification with type 'pop' when popstate occurs.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.onNavigated(callback);
+
+            // Act.
+            browserMocks.simulateHistoryChange({ path: 1, hash: {} }, "http://example.com/other");
+
+            // Assert.
+            expect(callback).toHaveBeenCalledExactlyOnceWith('pop');
+        });
+
+        test("Should expose the direction of history traversals in the <html> element when view transitions are on.", () => {
+            // Arrange.
+            setViewTransitions(true);
+            historyApi.pushState({ path: 1, hash: {} }, '', "http://example.com/new");
+
+            // Act.
+            browserMocks.simulateHistoryChange({ path: 0, hash: {}, index: 0 }, initialUrl);
+            const direction = document.documentElement.getAttribute(navigationDirectionAttribute);
+            resetViewTransitions();
+
+            // Assert.
+            expect(direction).toBe('back');
+            expect(historyApi.url.href).toBe(initialUrl);
+        });
+
+        test("Should only raise the navigated notification with type 'hashchange' on fragment navigation.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            historyApi.onNavigated(callback);
+
+            // Act.
+            browserMocks.simulateHistoryChange(null, "http://example.com/#fragment");
+            browserMocks.triggerHashChange();
+
+            // Assert.
+            expect(callback).toHaveBeenCalledExactlyOnceWith('hashchange');
+        });
+
+        test("Should stop raising the navigated notification to removed subscriptions.", () => {
+            // Arrange.
+            const callback = vi.fn();
+            const unsub = historyApi.onNavigated(callback);
+
+            // Act.
+            unsub();
+            historyApi.pushState({ path: 1, hash: {} }, '', "http://example.com/new");
+
+            // Assert.
+            expect(callback).not.toHaveBeenCalled();
+        });
     });
 
     describe("dispose", () => {
@@ -293,7 +384,7 @@ describe("StockHistoryApi", () => {
 
             // Assert.
             expect(pushStateSpy).toHaveBeenCalledWith(
-                { path: undefined, hash: {} },
+                { path: undefined, hash: {}, index: 1, key: expect.any(String) },
                 "",
                 "/test"
             );
@@ -310,7 +401,7 @@ describe("StockHistoryApi", () => {
 
             // Assert.
             expect(pushStateSpy).toHaveBeenCalledWith(
-                testState,
+                { ...testState, index: 1, key: expect.any(String) },
                 "",
                 urlObject
             );
@@ -1,6 +1,15 @@
 import { on } from "svelte/events";
 import type { HistoryApi, State } from "../types.js";
 import { LocationState } from "./LocationState.svelte.js";
+import { isConformantState } from "./isConformantState.js";
+import { runNavigationUpdate, traversalDirection } from "./viewTransitions.js";
+
+/**
+ * Determines whether the given URL's differ only in their hash.
+ */
+export function isHashOnlyChange(previousUrl: URL, url: URL) {
+    return previousUrl.hash !== url.hash && previousUrl.href.split('#')[0] === url.href.split('#')[0];
+}
 
 /**
  * Standard implementation of HistoryApi that uses the browser's native History API
@@ -8,10 +17,17 @@ import { LocationState } from "./LocationState.svelte.js";
  */
 export class StockHistoryApi extends LocationState implements HistoryApi {
     #cleanupFunctions: (() => void)[] = [];
+    #fragmentNavigation = false;
 
     constructor(initialUrl?: string, initialState?: State) {
         super(initialUrl, initialState);
         if (typeof globalThis.window !== 'undefined') {
+            const historyState = globalThis.window.history?.state;
+            if (!initialState && this.state.index === undefined && (historyState == null || isConformantState(historyState))) {
+                // Number the entry the application was loaded in, so the position of future entries is known.
+                this.state = { ...this.state, ...this.nextEntry('replace') };
+                globalThis.window.history?.replaceState($state.snapshot(this.state), '', globalThis.window.location?.href);
+            }
             this.#cleanupFunctions.push(
                 on(globalThis.window, 'popstate', this.#handlePopstateEvent),
                 on(globalThis.window, 'hashchange', this.#handleHashChangeEvent)
@@ -20,18 +36,63 @@ export class StockHistoryApi extends LocationState implements HistoryApi {
     }
 
     #handlePopstateEvent = (event: PopStateEvent): void => {
-        this.url.href = globalThis.window.location.href;
-        this.state = this.normalizeState(event.state, this.state);
+        this.handlePopstate(event);
+    }
+
+    #handleHashChangeEvent = (): void => {
+        this.handleHashChange();
     }
 
-    #handleHashChangeEvent = (event: HashChangeEvent): void => {
+    /**
+     * Determines whether the given `popstate` event is the result of a history traversal, as opposed to fragment 
+     * navigation (which is reported by the `hashchange` event that follows).
+     * @param event The `popstate` event.
+     */
+    isTraversal(event: PopStateEvent) {
+        return event.state != null || !isHashOnlyChange(this.url, new URL(globalThis.window.location.href));
+    }
+
+    /**
+     * Applies the URL and state of the history entry the environment moved to.  Derived classes may override it to 
+     * intercept history traversals.
+     * @param event The `popstate` event.
+     */
+    handlePopstate(event: PopStateEvent) {
+        const traversal = this.isTraversal(event);
+        this.#fragmentNavigation = !traversal;
+        const href = globalThis.window.location.href;
+        if (!traversal) {
+            // The hashchange event that follows completes fragment navigation.
+            this.url.href = href;
+            this.state = this.normalizeState(event.state, this.state);
+            return;
+        }
+        runNavigationUpdate(() => {
+            this.url.href = href;
+            this.state = this.normalizeState(event.state, this.state);
+            this.raiseNavigated('pop');
+        }, traversalDirection(this.state.index, event.state?.index));
+    }
+
+    /**
+     * Applies the URL of the environment after its hash changed, clearing the hash routing state.  Derived classes 
+     * may override it to intercept hash changes.
+     */
+    handleHashChange() {
+        // Fragment navigation creates a new history entry.
+        const entry = this.#fragmentNavigation ?
+            this.nextEntry('push') :
+            { index: this.state.index, key: this.state.key };
+        this.#fragmentNavigation = false;
         this.url.href = globalThis.window.location.href;
         this.state = {
             path: this.state.path,
-            hash: {}
+            hash: {},
+            ...(entry.index === undefined ? {} : entry)
         };
         // Synchronize the environment's history state with a replace call.
         globalThis.window.history.replaceState($state.snapshot(this.state), '', this.url.href);
+        this.raiseNavigated('hashchange');
     }
 
     // History API implementation
@@ -67,10 +128,14 @@ export class StockHistoryApi extends LocationState implements HistoryApi {
         unused: string,
         url?: string | URL | null
     ): void {
-        const normalizedState = this.normalizeState(data);
+        const normalizedState = {
+            ...this.normalizeState(data),
+            ...this.nextEntry(historyMethod === 'pushState' ? 'push' : 'replace')
+        };
         globalThis.window?.history[historyMethod](normalizedState, unused, url);
         this.url.href = globalThis.window?.location?.href ?? new URL(url ?? '', this.url).href;
         this.state = normalizedState;
+        this.raiseNavigated(historyMethod === 'pushState' ? 'push' : 'replace');
     }
 
     pushState(data: any, unused: string, url?: string | URL | null): void {
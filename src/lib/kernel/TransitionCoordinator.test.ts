@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { resetNavigationTracking, TransitionCoordinator, trackNavigation } from "./TransitionCoordinator.js";
+import { setLocation } from "./Location.js";
+import { LocationLite } from "./LocationLite.svelte.js";
+import { MemoryHistoryApi } from "./MemoryHistoryApi.svelte.js";
+import type { RouteTransitionMode } from "../types.js";
+
+describe("TransitionCoordinator", () => {
+    let location: LocationLite;
+    let coordinator: TransitionCoordinator;
+    const node = document.createElement('div');
+
+    beforeEach(() => {
+        location = new LocationLite(new MemoryHistoryApi('http://example.com/'));
+        setLocation(location);
+        trackNavigation();
+        coordinator = new TransitionCoordinator();
+    });
+
+    afterEach(() => {
+        resetNavigationTracking();
+        setLocation(null);
+        location.dispose();
+    });
+
+    test("Should give transition functions the type and direction of the last navigation.", () => {
+        // Arrange.
+        const fn = vi.fn(() => ({ duration: 100 }));
+        location.goTo('/other');
+
+        // Act.
+        coordinator.transition(node, fn, 'in');
+
+        // Assert.
+        expect(fn).toHaveBeenCalledWith(node, { type: 'push', direction: 'forward' });
+    });
+
+    test("Should subscribe to the location object only once.", () => {
+        // Arrange.
+        const onSpy = vi.spyOn(location, 'on');
+
+        // Act.
+        trackNavigation();
+
+        // Assert.
+        expect(onSpy).not.toHaveBeenCalled();
+    });
+
+    test("Should give transition functions no navigation type before there is any navigation.", () => {
+        // Arrange.
+        const fn = vi.fn(() => ({ duration: 100 }));
+
+        // Act.
+        coordinator.transition(node, fn, 'out');
+
+        // Assert.
+        expect(fn).toHaveBeenCalledWith(node, { type: undefined, direction: 'none' });
+    });
+
+    test("Should resolve to an empty transition when there is no transition function.", () => {
+        // Act.
+        const config = coordinator.transition(node, undefined, 'in')();
+
+        // Assert.
+        expect(config).toEqual({ delay: 0 });
+    });
+
+    test.each<{ mode: RouteTransitionMode; expectedInDelay: number; expectedOutDelay: number }>([
+        { mode: 'simultaneous', expectedInDelay: 10, expectedOutDelay: 20 },
+        { mode: 'out-in', expectedInDelay: 10 + 20 + 200, expectedOutDelay: 20 },
+        { mode: 'in-out', expectedInDelay: 10, expectedOutDelay: 20 + 10 + 100 },
+    ])("Should delay the transitions as dictated by the '$mode' mode.", ({ mode, expectedInDelay, expectedOutDelay }) => {
+        // Arrange.
+        coordinator.mode = mode;
+        const incoming = coordinator.transition(node, () => ({ delay: 10, duration: 100 }), 'in');
+        const outgoing = coordinator.transition(node, () => ({ delay: 20, duration: 200 }), 'out');
+
+        // Act.
+        const inConfig = incoming();
+        const outConfig = outgoing();
+
+        // Assert.
+        expect(inConfig).toEqual({ delay: expectedInDelay, duration: 100 });
+        expect(outConfig).toEqual({ delay: expectedOutDelay, duration: 200 });
+    });
+
+    test("Should not delay transitions because of the ones that started while rendering earlier changes.", async () => {
+        // Arrange.
+        coordinator.mode = 'out-in';
+        coordinator.transition(node, () => ({ duration: 200 }), 'out');
+        await Promise.resolve();
+
+        // Act.
+        const config = coordinator.transition(node, () => ({ duration: 100 }), 'in')();
+
+        // Assert.
+        expect(config).toEqual({ delay: 0, duration: 100 });
+    });
+});
@@ -0,0 +1,100 @@
+import type { TransitionConfig } from "svelte/transition";
+import type { RouteTransitionFunction, RouteTransitionInfo, RouteTransitionMode } from "../types.js";
+import { location } from "./Location.js";
+
+/**
+ * Defines the transitions that start together, as a result of the same navigation.
+ */
+type TransitionBatch = {
+    in: TransitionConfig[];
+    out: TransitionConfig[];
+};
+
+const initialNavigationInfo: RouteTransitionInfo = { type: undefined, direction: 'none' };
+
+let navigationInfo = initialNavigationInfo;
+let stopTracking: (() => void) | undefined;
+
+/**
+ * Starts keeping track of the type and direction of the last navigation, which is given to route transition 
+ * functions.
+ *
+ * Routes with transitions start tracking when created, so the location object is only subscribed to when route 
+ * transitions are used.
+ */
+export function trackNavigation() {
+    if (stopTracking) {
+        return;
+    }
+    stopTracking = location.on('afterNavigate', (event) => {
+        navigationInfo = { type: event.type, direction: event.direction };
+    });
+}
+
+/**
+ * Stops keeping track of navigation, and forgets the last navigation.
+ */
+export function resetNavigationTracking() {
+    stopTracking?.();
+    stopTracking = undefined;
+    navigationInfo = initialNavigationInfo;
+}
+
+function endTime(configs: TransitionConfig[]) {
+    return configs.reduce((max, c) => Math.max(max, (c.delay ?? 0) + (c.duration ?? 0)), 0);
+}
+
+/**
+ * Coordinates the transitions of the content of a router's routes, so outgoing and incoming content animates in the
+ * order set by the transition mode.
+ *
+ * Transitions that start while rendering the same changes form a batch.  Depending on the mode, the transitions of
+ * one side of the batch are delayed until the transitions of the other side are done.
+ */
+export class TransitionCoordinator {
+    #batch: TransitionBatch | undefined;
+    /**
+     * Gets or sets the order in which the content of outgoing and incoming routes animates.
+     *
+     * @default 'simultaneous'
+     */
+    mode: RouteTransitionMode = 'simultaneous';
+
+    #currentBatch() {
+        if (!this.#batch) {
+            const batch: TransitionBatch = { in: [], out: [] };
+            this.#batch = batch;
+            // All transitions of the batch start synchronously while rendering.
+            queueMicrotask(() => {
+                if (this.#batch === batch) {
+                    this.#batch = undefined;
+                }
+            });
+        }
+        return this.#batch;
+    }
+
+    /**
+     * Creates the Svelte transition of a route's content.
+     * @param node The element that wraps the route's content.
+     * @param fn The route's transition function for the given direction, if any.
+     * @param direction Whether the content is coming in or going out.
+     * @returns A deferred Svelte transition, whose configuration is resolved once all the transitions of the batch
+     * are known.
+     */
+    transition(node: Element, fn: RouteTransitionFunction | undefined, direction: 'in' | 'out') {
+        const config = fn?.(node, navigationInfo) ?? {};
+        const batch = this.#currentBatch();
+        batch[direction].push(config);
+        return (): TransitionConfig => {
+            let wait = 0;
+            if (this.mode === 'out-in' && direction === 'in') {
+                wait = endTime(batch.out);
+            }
+            else if (this.mode === 'in-out' && direction === 'out') {
+                wait = endTime(batch.in);
+            }
+            return { ...config, delay: (config.delay ?? 0) + wait };
+        };
+    }
+}
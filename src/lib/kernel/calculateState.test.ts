@@ -3,6 +3,11 @@ import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest'
 import { calculateState } from './calculateState.js';
 import { ROUTING_UNIVERSES, ALL_HASHES, setupBrowserMocks } from '$test/test-utils.js';
 
+/**
+ * The history entry data that calculateState carries over from the current state.
+ */
+const entry = { index: 0, key: expect.any(String) };
+
 describe('calculateState', () => {
     describe('Clean Slate (no existing state)', () => {
         let cleanup: () => void;
@@ -23,17 +28,17 @@ describe('calculateState', () => {
             {
                 hash: ALL_HASHES.path,
                 state: 1,
-                expected: { path: 1, hash: {} }
+                expected: { path: 1, hash: {}, ...entry }
             },
             {
                 hash: ALL_HASHES.single,
                 state: 2,
-                expected: { hash: { single: 2 } }
+                expected: { hash: { single: 2 }, ...entry }
             },
             {
                 hash: ALL_HASHES.multi,
                 state: 3,
-                expected: { hash: { [ALL_HASHES.multi]: 3 } }
+                expected: { hash: { [ALL_HASHES.multi]: 3 }, ...entry }
             },
         ])("Should set the state object when 'hash' is $hash", ({ hash, state, expected }) => {
             // Act
@@ -170,6 +175,7 @@ describe('calculateState', () => {
 
                         // Assert - all other states should be preserved (including single hash from setup)
                         expect(newState).toEqual({
+                            ...entry,
                             path: { path: 'initial' },
                             hash: {
                                 single: { single: 'initial' }, // This gets preserved from setup
@@ -186,6 +192,7 @@ describe('calculateState', () => {
 
                         // Assert
                         expect(newState).toEqual({
+                            ...entry,
                             path: { path: 'updated' },  // Only this should change
                             hash: {
                                 single: { single: 'initial' }, // Preserved from setup
@@ -202,6 +209,7 @@ describe('calculateState', () => {
 
                         // Assert
                         expect(newState).toEqual({
+                            ...entry,
                             path: { path: 'initial' },
                             hash: {
                                 single: { single: 'initial' }, // Preserved from setup
@@ -219,6 +227,7 @@ describe('calculateState', () => {
 
                         // Assert - should only have single hash state (self-cleaning)
                         expect(newState).toEqual({
+                            ...entry,
                             path: { path: 'initial' },  // Path preserved
                             hash: { single: { single: 'traditional' } }  // All named hashes cleared
                         });
@@ -8,6 +8,9 @@ type LocationInternal = Location & { [getCompleteStateKey]: () => State };
 /**
  * Calculates the complete state object that should be set in the History API, setting the given state as the state of 
  * the implicit routing universe, making sure that all states for all other routing universes are preserved.
+ * 
+ * The current entry's `index` and `key` values are carried over as well, and are updated by the `HistoryApi` object 
+ * when the new state is pushed.
  * @param state The desired state for the given hash.
  */
 export function calculateState(state: any): State;
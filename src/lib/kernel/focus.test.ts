@@ -0,0 +1,137 @@
+import { describe, test, expect, afterEach } from "vitest";
+import {
+    announcerId,
+    defaultFocusOptions,
+    focusOptions,
+    requestFocusManagement,
+    resetFocusOptions,
+    resolveFocusOptions,
+    setFocusOptions
+} from "./focus.js";
+
+/**
+ * Waits for pending focus management requests to be served.
+ */
+function settle() {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("focus", () => {
+    afterEach(() => {
+        resetFocusOptions();
+        document.body.innerHTML = '';
+        document.title = '';
+    });
+
+    describe("setFocusOptions", () => {
+        test.each([
+            { options: undefined, expected: defaultFocusOptions },
+            { options: true, expected: { ...defaultFocusOptions, enabled: true } },
+            { options: { announce: false }, expected: { ...defaultFocusOptions, enabled: true, announce: false } },
+        ])("Should set the global options when given $options .", ({ options, expected }) => {
+            // Act.
+            setFocusOptions(options);
+
+            // Assert.
+            expect(focusOptions).toEqual(expected);
+        });
+    });
+
+    describe("resolveFocusOptions", () => {
+        test.each([
+            { options: undefined, expected: { ...defaultFocusOptions, target: 'main', enabled: true } },
+            { options: false, expected: { ...defaultFocusOptions, target: 'main', enabled: false } },
+            { options: { target: 'h2' }, expected: { ...defaultFocusOptions, target: 'h2', enabled: true } },
+        ])("Should merge $options with the global options.", ({ options, expected }) => {
+            // Arrange.
+            setFocusOptions({ target: 'main' });
+
+            // Act.
+            const result = resolveFocusOptions(options);
+
+            // Assert.
+            expect(result).toEqual(expected);
+        });
+    });
+
+    describe("requestFocusManagement", () => {
+        test("Should focus elements marked with data-route-focus before headings.", async () => {
+            // Arrange.
+            document.body.innerHTML = '<h1>Title</h1><p data-route-focus>Summary</p>';
+
+            // Act.
+            requestFocusManagement(defaultFocusOptions);
+            await settle();
+
+            // Assert.
+            expect(document.activeElement?.tagName).toBe('P');
+        });
+
+        test("Should announce the document's title in a live region.", async () => {
+            // Arrange.
+            document.title = 'New Page';
+            document.body.innerHTML = '<h1>Title</h1>';
+
+            // Act.
+            requestFocusManagement(defaultFocusOptions);
+            await settle();
+
+            // Assert.
+            const announcer = document.getElementById(announcerId);
+            expect(announcer?.getAttribute('aria-live')).toBe('polite');
+            expect(announcer?.textContent).toBe('New Page');
+        });
+
+        test("Should announce the focused element's text when the document has no title.", async () => {
+            // Arrange.
+            document.body.innerHTML = '<h1> Title </h1>';
+
+            // Act.
+            requestFocusManagement(defaultFocusOptions);
+            await settle();
+
+            // Assert.
+            expect(document.getElementById(announcerId)?.textContent).toBe('Title');
+        });
+
+        test("Should serve requests made together once, with the options of the last request.", async () => {
+            // Arrange.
+            document.body.innerHTML = '<h1>Title</h1><h2>Subtitle</h2>';
+
+            // Act.
+            requestFocusManagement(defaultFocusOptions);
+            requestFocusManagement({ ...defaultFocusOptions, target: 'h2', announce: false });
+            await settle();
+
+            // Assert.
+            expect(document.activeElement?.tagName).toBe('H2');
+            expect(document.getElementById(announcerId)).toBeNull();
+        });
+
+        test("Should focus the target rendered by the new routes before the one that was already in the document.", async () => {
+            // Arrange.
+            document.body.innerHTML = '<header><h1>App</h1></header><main></main>';
+
+            // Act.
+            requestFocusManagement(defaultFocusOptions);
+            document.querySelector('main')!.innerHTML = '<h1>Page</h1>';
+            await settle();
+
+            // Assert.
+            expect(document.activeElement?.textContent).toBe('Page');
+        });
+
+        test("Should fall back to the target that was already in the document when the new routes render none.", async () => {
+            // Arrange.
+            document.body.innerHTML = '<header><h1>App</h1></header><main></main>';
+
+            // Act.
+            requestFocusManagement(defaultFocusOptions);
+            document.querySelector('main')!.innerHTML = '<p>Page</p>';
+            await settle();
+
+            // Assert.
+            expect(document.activeElement?.textContent).toBe('App');
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { tick } from "svelte";
+import type { FocusManagementOptions } from "../types.js";
+
+/**
+ * Default focus management options used for rollback.
+ */
+export const defaultFocusOptions: Required<FocusManagementOptions> & { enabled: boolean } = {
+    enabled: false,
+    target: ['[data-route-focus]', 'h1'],
+    announce: true,
+};
+
+/**
+ * Global focus management options.
+ */
+export const focusOptions = structuredClone(defaultFocusOptions);
+
+/**
+ * Identifier of the live region element used to announce navigation.
+ */
+export const announcerId = 'svelte-router-announcer';
+
+let pendingOptions: Required<FocusManagementOptions> | undefined;
+/**
+ * Elements that matched the target selectors before the content of the new routes rendered.
+ */
+let previousTargets: Set<Element> | undefined;
+
+/**
+ * Sets the global focus management options.
+ * @param options The value of the `focus` initialization option.
+ */
+export function setFocusOptions(options?: boolean | FocusManagementOptions) {
+    Object.assign(focusOptions, resolveFocusOptions(options));
+}
+
+/**
+ * Resets the focus management options to their default values, and removes the live region element.
+ */
+export function resetFocusOptions() {
+    Object.assign(focusOptions, structuredClone(defaultFocusOptions));
+    pendingOptions = undefined;
+    previousTargets = undefined;
+    globalThis.document?.getElementById(announcerId)?.remove();
+}
+
+/**
+ * Merges the given focus management setting with the global options.
+ * @param options A focus management setting, as given to the `focus` initialization option or router property.
+ * @returns The resulting options, where `enabled` tells whether focus management should take place.
+ */
+export function resolveFocusOptions(options?: boolean | FocusManagementOptions) {
+    if (options === undefined) {
+        return { ...focusOptions };
+    }
+    if (typeof options === 'boolean') {
+        return { ...focusOptions, enabled: options };
+    }
+    return {
+        enabled: true,
+        target: options.target ?? focusOptions.target,
+        announce: options.announce ?? focusOptions.announce,
+    };
+}
+
+function getAnnouncer() {
+    let announcer = globalThis.document.getElementById(announcerId);
+    if (!announcer) {
+        announcer = globalThis.document.createElement('div');
+        announcer.id = announcerId;
+        announcer.setAttribute('aria-live', 'polite');
+        announcer.setAttribute('aria-atomic', 'true');
+        // Visually hidden, yet available to assistive technologies.
+        announcer.setAttribute(
+            'style',
+            'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0;'
+        );
+        globalThis.document.body.appendChild(announcer);
+    }
+    return announcer;
+}
+
+function toSelectors(target: string | string[]) {
+    return Array.isArray(target) ? target : [target];
+}
+
+function findTarget(target: string | string[], exclude: Set<Element>) {
+    const selectors = toSelectors(target);
+    // Elements rendered by the new routes are preferred over the ones that were already there, such as the ones of
+    // the application's shell.
+    for (const selector of selectors) {
+        for (const element of globalThis.document.querySelectorAll<HTMLElement>(selector)) {
+            if (!exclude.has(element)) {
+                return element;
+            }
+        }
+    }
+    for (const selector of selectors) {
+        const element = globalThis.document.querySelector<HTMLElement>(selector);
+        if (element) {
+            return element;
+        }
+    }
+    return null;
+}
+
+function manageFocus(options: Required<FocusManagementOptions>, exclude: Set<Element>) {
+    const element = findTarget(options.target, exclude);
+    if (element) {
+        if (!element.hasAttribute('tabindex') && element.tabIndex < 0) {
+            // Headings and other non-interactive elements can only receive focus programmatically this way.
+            element.setAttribute('tabindex', '-1');
+        }
+        element.focus({ preventScroll: true });
+    }
+    if (options.announce) {
+        const text = globalThis.document.title || element?.textContent?.trim() || '';
+        if (text) {
+            getAnnouncer().textContent = text;
+        }
+    }
+}
+
+/**
+ * Requests focus management for the navigation that changed the matching routes of a router.  It must be requested
+ * before the content of the new routes renders, so the target can be searched for in the new content first.
+ *
+ * Requests made while the new content renders are served once, after rendering completes, with the options of the
+ * last request.
+ * @param options The router's resolved focus management options.
+ */
+export function requestFocusManagement(options: Required<FocusManagementOptions>) {
+    if (!globalThis.document) {
+        return;
+    }
+    const isFirst = !pendingOptions;
+    pendingOptions = options;
+    if (!isFirst) {
+        return;
+    }
+    previousTargets = new Set(globalThis.document.querySelectorAll(toSelectors(options.target).join(', ')));
+    tick().then(() => {
+        const current = pendingOptions;
+        const exclude = previousTargets;
+        pendingOptions = undefined;
+        previousTargets = undefined;
+        if (current && exclude) {
+            manageFocus(current, exclude);
+        }
+    });
+}
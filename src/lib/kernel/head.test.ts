@@ -0,0 +1,119 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { getRouterHead, resetHead, setHead, setTitleTemplate } from "./head.js";
+import { RouterEngine } from "./RouterEngine.svelte.js";
+import { init } from "../init.js";
+import { location } from "./Location.js";
+
+function getMetaContent(name: string) {
+    return Array.from(document.head.getElementsByTagName('meta')).find(m => m.name === name)?.content;
+}
+
+describe("head", () => {
+    const ownerA = {};
+    const ownerB = {};
+
+    afterEach(() => {
+        resetHead();
+        document.title = '';
+        document.head.innerHTML = '';
+    });
+
+    describe("setHead", () => {
+        test("Should apply the title formatted with the title template.", () => {
+            // Arrange.
+            setTitleTemplate('%s - App');
+
+            // Act.
+            setHead(ownerA, 0, { title: 'Home' });
+
+            // Assert.
+            expect(document.title).toBe('Home - App');
+        });
+
+        test("Should apply the title of the deepest owner.", () => {
+            // Act.
+            setHead(ownerB, 1, { title: 'Child' });
+            setHead(ownerA, 0, { title: 'Parent' });
+
+            // Assert.
+            expect(document.title).toBe('Child');
+        });
+
+        test("Should restore the original title once no owner has a title.", () => {
+            // Arrange.
+            document.title = 'Original';
+            setHead(ownerA, 0, { title: 'Parent' });
+            setHead(ownerB, 1, { title: 'Child' });
+
+            // Act.
+            setHead(ownerB, 1, undefined);
+            const parentTitle = document.title;
+            setHead(ownerA, 0, {});
+
+            // Assert.
+            expect(parentTitle).toBe('Parent');
+            expect(document.title).toBe('Original');
+        });
+
+        test("Should apply meta tags, letting deeper owners override shallower ones.", () => {
+            // Act.
+            setHead(ownerA, 0, { metaTags: { description: 'Parent', robots: 'index' } });
+            setHead(ownerB, 1, { metaTags: { description: 'Child' } });
+
+            // Assert.
+            expect(getMetaContent('description')).toBe('Child');
+            expect(getMetaContent('robots')).toBe('index');
+        });
+
+        test("Should restore existing meta tags and remove added ones when no longer needed.", () => {
+            // Arrange.
+            const existing = document.createElement('meta');
+            existing.name = 'description';
+            existing.content = 'Original';
+            document.head.appendChild(existing);
+            setHead(ownerA, 0, { metaTags: { description: 'Route', robots: 'noindex' } });
+
+            // Act.
+            setHead(ownerA, 0, undefined);
+
+            // Assert.
+            expect(getMetaContent('description')).toBe('Original');
+            expect(getMetaContent('robots')).toBeUndefined();
+        });
+    });
+
+    describe("getRouterHead", () => {
+        let cleanup: () => void;
+        let router: RouterEngine;
+
+        beforeAll(() => {
+            cleanup = init();
+        });
+
+        afterAll(() => {
+            cleanup();
+        });
+
+        afterEach(() => {
+            router?.dispose();
+        });
+
+        test("Should collect the title and meta tags of the matching routes only.", () => {
+            // Arrange.
+            location.goTo('/users/7');
+            router = new RouterEngine();
+            router.routes['user'] = {
+                pattern: '/users/:id',
+                title: (params, state) => `User ${params?.id} (${state})`,
+                metaTags: { description: 'User' },
+            };
+            router.routes['other'] = { pattern: '/other', title: 'Other', metaTags: { robots: 'noindex' } };
+
+            // Act.
+            const head = getRouterHead(router);
+
+            // Assert.
+            expect(head).toEqual({ title: 'User 7 (undefined)', metaTags: { description: 'User' } });
+        });
+    });
+});
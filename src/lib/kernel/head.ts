@@ -0,0 +1,148 @@
+import type { RouterEngine } from "./RouterEngine.svelte.js";
+
+/**
+ * Defines the document head data contributed by a router.
+ */
+export type HeadData = {
+    /**
+     * The document title, before applying the title template.
+     */
+    title?: string;
+    /**
+     * The meta tags, where the keys are the tags' names and the values their content.
+     */
+    metaTags?: Record<string, string>;
+};
+
+type HeadEntry = HeadData & {
+    depth: number;
+    order: number;
+};
+
+type ManagedMetaTag = {
+    element: HTMLMetaElement;
+    originalContent: string | null;
+};
+
+/**
+ * Default title template used for rollback.
+ */
+export const defaultTitleTemplate = '%s';
+
+let titleTemplate = defaultTitleTemplate;
+let order = 0;
+let originalTitle: string | undefined;
+const entries = new Map<object, HeadEntry>();
+const managedMetaTags = new Map<string, ManagedMetaTag>();
+
+/**
+ * Sets the template used to format route titles.  Its `%s` placeholder is replaced with the route's title.
+ * @param template The title template.
+ */
+export function setTitleTemplate(template?: string) {
+    titleTemplate = template ?? titleTemplate;
+}
+
+/**
+ * Removes all head data, restoring the document's original title and meta tags, and resets the title template.
+ */
+export function resetHead() {
+    entries.clear();
+    applyHead();
+    titleTemplate = defaultTitleTemplate;
+}
+
+/**
+ * Obtains the head data of the matching routes of the given router.  Reactive when called within effects.
+ *
+ * Titles of later routes win over the ones of earlier routes, and so do their meta tags.
+ * @param router The router whose routes are inspected.
+ * @returns The router's head data.
+ */
+export function getRouterHead(router: RouterEngine): HeadData {
+    const result: HeadData = {};
+    for (let [key, route] of Object.entries(router.routes)) {
+        const status = router.routeStatus[key];
+        if (!status?.match) {
+            continue;
+        }
+        if (route.title !== undefined) {
+            result.title = typeof route.title === 'function' ?
+                route.title(status.routeParams, router.state) :
+                route.title;
+        }
+        if (route.metaTags) {
+            result.metaTags = { ...result.metaTags, ...route.metaTags };
+        }
+    }
+    return result;
+}
+
+/**
+ * Sets the head data contributed by the given owner (usually a router engine), and applies the resulting title and
+ * meta tags to the document.
+ *
+ * The title of the deepest owner wins, while meta tags of deeper owners override the ones of shallower owners.
+ * @param owner The owner of the head data.
+ * @param depth The owner's depth in the router hierarchy.
+ * @param head The head data, or `undefined` to remove the owner's data.
+ */
+export function setHead(owner: object, depth: number, head: HeadData | undefined) {
+    if (head) {
+        entries.set(owner, { ...head, depth, order: ++order });
+    }
+    else {
+        entries.delete(owner);
+    }
+    applyHead();
+}
+
+function compareEntries(a: HeadEntry, b: HeadEntry) {
+    return a.depth - b.depth || a.order - b.order;
+}
+
+function applyHead() {
+    if (!globalThis.document) {
+        return;
+    }
+    const sorted = Array.from(entries.values()).sort(compareEntries);
+    const title = sorted.findLast(e => e.title !== undefined)?.title;
+    if (title !== undefined) {
+        originalTitle ??= globalThis.document.title;
+        globalThis.document.title = titleTemplate.replace('%s', title);
+    }
+    else if (originalTitle !== undefined) {
+        globalThis.document.title = originalTitle;
+        originalTitle = undefined;
+    }
+    applyMetaTags(Object.assign({}, ...sorted.map(e => e.metaTags)));
+}
+
+function applyMetaTags(metaTags: Record<string, string>) {
+    for (let [name, managed] of managedMetaTags) {
+        if (name in metaTags) {
+            continue;
+        }
+        if (managed.originalContent === null) {
+            managed.element.remove();
+        }
+        else {
+            managed.element.content = managed.originalContent;
+        }
+        managedMetaTags.delete(name);
+    }
+    for (let [name, content] of Object.entries(metaTags)) {
+        let managed = managedMetaTags.get(name);
+        if (!managed) {
+            const existing = Array.from(globalThis.document.head.getElementsByTagName('meta')).find(m => m.name === name);
+            const element = existing ?? globalThis.document.createElement('meta');
+            if (!existing) {
+                element.name = name;
+                globalThis.document.head.appendChild(element);
+            }
+            managed = { element, originalContent: existing ? existing.content : null };
+            managedMetaTags.set(name, managed);
+        }
+        managed.element.content = content;
+    }
+}
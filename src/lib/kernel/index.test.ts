@@ -14,6 +14,8 @@ describe('index', () => {
             'LocationState',
             'StockHistoryApi',
             'InterceptedHistoryApi',
+            'MemoryHistoryApi',
+            'NavigationApiHistoryApi',
             'LocationLite',
             'LocationFull',
             'preserveQueryInUrl',
@@ -7,6 +7,8 @@ export { initCore } from "./initCore.js";
 export { LocationState } from "./LocationState.svelte.js";
 export { StockHistoryApi } from "./StockHistoryApi.svelte.js";
 export { InterceptedHistoryApi } from "./InterceptedHistoryApi.svelte.js";
+export { MemoryHistoryApi } from "./MemoryHistoryApi.svelte.js";
+export { NavigationApiHistoryApi } from "./NavigationApiHistoryApi.svelte.js";
 export { LocationLite } from "./LocationLite.svelte.js";
-export { LocationFull } from "./LocationFull.js";
+export { LocationFull } from "./LocationFull.svelte.js";
 export { preserveQueryInUrl } from "./preserveQuery.js";
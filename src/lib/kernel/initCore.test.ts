@@ -11,14 +11,19 @@ const initialUrl = 'http://example.com/';
 const locationMock: Location = {
     url: new SvelteURL(initialUrl),
     hashPaths: {},
+    index: 0,
+    canGoBack: false,
+    canGoForward: false,
+    entries: [],
     back: vi.fn(),
     dispose: vi.fn(),
     forward: vi.fn(),
     getState: vi.fn(),
     goTo: vi.fn(),
-    on: vi.fn(),
+    on: vi.fn(() => vi.fn()),
     go: vi.fn(),
     navigate: vi.fn(),
+    block: vi.fn(),
 };
 
 describe('initCore', () => {
@@ -44,6 +49,33 @@ describe('initCore', () => {
         // Assert.
         expect(act).toThrow();
     });
+    test("Should start the scroll manager when the scroll option is set, and stop it on cleanup.", () => {
+        // Arrange.
+        const unsubscribe = vi.fn();
+        vi.mocked(locationMock.on).mockReturnValue(unsubscribe);
+
+        // Act.
+        cleanup = initCore(locationMock, { scroll: true });
+        const subscribed = vi.mocked(locationMock.on).mock.calls.map(c => c[0]);
+        cleanup();
+        cleanup = undefined;
+
+        // Assert.
+        expect(subscribed).toEqual(['navigationStart', 'afterNavigate']);
+        expect(unsubscribe).toHaveBeenCalledTimes(2);
+    });
+    test("Should not subscribe to the events of the location object without options that need them.", () => {
+        // Arrange.
+        vi.mocked(locationMock.on).mockImplementation(() => {
+            throw new Error("Not supported.");
+        });
+
+        // Act.
+        cleanup = initCore(locationMock);
+
+        // Assert.
+        expect(locationMock.on).not.toHaveBeenCalled();
+    });
     test("Should initialize with custom options and rollback properly.", async () => {
         // Arrange.
         const customLogger = {
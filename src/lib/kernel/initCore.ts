@@ -3,6 +3,11 @@ import { setLocation } from "./Location.js";
 import { resetLogger, setLogger } from "./Logger.js";
 import { resetRoutingOptions, setRoutingOptions } from "./options.js";
 import { resetTraceOptions, setTraceOptions } from "./trace.svelte.js";
+import { ScrollManager } from "./ScrollManager.js";
+import { resetFocusOptions, setFocusOptions } from "./focus.js";
+import { resetHead, setTitleTemplate } from "./head.js";
+import { resetNavigationTracking } from "./TransitionCoordinator.js";
+import { resetViewTransitions, setViewTransitions } from "./viewTransitions.js";
 
 /**
  * Core initialization function used by both the main package and extension packages.
@@ -22,12 +27,21 @@ export function initCore(location: Location, options?: ExtendedInitOptions) {
     setTraceOptions(options?.trace);
     setLogger(options?.logger ?? true);
     setRoutingOptions(options);
+    setFocusOptions(options?.focus);
+    setTitleTemplate(options?.titleTemplate);
+    setViewTransitions(options?.viewTransitions);
     const newLocation = setLocation(location);
+    const scrollManager = options?.scroll ? new ScrollManager(location) : undefined;
     return () => {
+        resetNavigationTracking();
+        scrollManager?.dispose();
         newLocation?.dispose();
         setLocation(null);
         resetRoutingOptions();
         resetLogger();
         resetTraceOptions();
+        resetFocusOptions();
+        resetHead();
+        resetViewTransitions();
     };
 }
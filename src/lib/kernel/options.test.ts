@@ -22,6 +22,14 @@ describe("options", () => {
         expect(routingOptions.disallowMultiHashRouting).toBe(false);
     });
 
+    test("Should have correct default value for paramCodecs option.", () => {
+        expect(routingOptions.paramCodecs).toEqual({});
+    });
+
+    test("Should have correct default value for defaultParamCodec option.", () => {
+        expect(routingOptions.defaultParamCodec).toBe('auto');
+    });
+
     test("Should allow modification of hashMode option.", () => {
         const originalValue = routingOptions.hashMode;
         routingOptions.hashMode = 'multi';
@@ -56,6 +64,8 @@ describe("options", () => {
             routingOptions.disallowPathRouting = true;
             routingOptions.disallowHashRouting = true;
             routingOptions.disallowMultiHashRouting = true;
+            routingOptions.paramCodecs = { id: 'int' };
+            routingOptions.defaultParamCodec = 'string';
 
             // Act.
             resetRoutingOptions();
@@ -9,6 +9,8 @@ export const defaultRoutingOptions: Required<ExtendedRoutingOptions> = {
     disallowPathRouting: false,
     disallowHashRouting: false,
     disallowMultiHashRouting: false,
+    paramCodecs: {},
+    defaultParamCodec: 'auto',
 };
 
 /**
@@ -28,6 +30,8 @@ export function setRoutingOptions(options?: Partial<ExtendedRoutingOptions>): vo
     routingOptions.disallowPathRouting = options?.disallowPathRouting ?? routingOptions.disallowPathRouting;
     routingOptions.disallowHashRouting = options?.disallowHashRouting ?? routingOptions.disallowHashRouting;
     routingOptions.disallowMultiHashRouting = options?.disallowMultiHashRouting ?? routingOptions.disallowMultiHashRouting;
+    routingOptions.paramCodecs = options?.paramCodecs ?? routingOptions.paramCodecs;
+    routingOptions.defaultParamCodec = options?.defaultParamCodec ?? routingOptions.defaultParamCodec;
 }
 
 /**
@@ -0,0 +1,125 @@
+import { describe, test, expect, afterEach } from "vitest";
+import { builtInParamCodecs, getParamCodec, resolveParamCodec } from "./paramCodecs.js";
+import { resetRoutingOptions, setRoutingOptions } from "./options.js";
+import type { ParamCodec, ParamCodecName } from "../types.js";
+
+describe("paramCodecs", () => {
+    describe("builtInParamCodecs", () => {
+        test.each([
+            { codec: 'auto', value: '007', expected: 7 },
+            { codec: 'auto', value: '-1.5', expected: -1.5 },
+            { codec: 'auto', value: 'true', expected: true },
+            { codec: 'auto', value: 'false', expected: false },
+            { codec: 'auto', value: 'abc', expected: 'abc' },
+            { codec: 'auto', value: '', expected: '' },
+            { codec: 'string', value: '007', expected: '007' },
+            { codec: 'string', value: 'true', expected: 'true' },
+            { codec: 'int', value: '007', expected: 7 },
+            { codec: 'int', value: '-12', expected: -12 },
+            { codec: 'int', value: '1.5', expected: undefined },
+            { codec: 'int', value: 'abc', expected: undefined },
+            { codec: 'number', value: '1.5', expected: 1.5 },
+            { codec: 'number', value: ' ', expected: undefined },
+            { codec: 'number', value: 'abc', expected: undefined },
+            { codec: 'boolean', value: 'true', expected: true },
+            { codec: 'boolean', value: 'false', expected: false },
+            { codec: 'boolean', value: 'TRUE', expected: undefined },
+        ] as { codec: ParamCodecName; value: string; expected: unknown; }[])("Should parse '$value' as $expected with the '$codec' codec.", ({ codec, value, expected }) => {
+            // Act.
+            const result = builtInParamCodecs[codec].parse(value);
+
+            // Assert.
+            expect(result).toBe(expected);
+        });
+
+        test.each([
+            { codec: 'auto', value: 7, expected: '7' },
+            { codec: 'auto', value: true, expected: 'true' },
+            { codec: 'string', value: '007', expected: '007' },
+            { codec: 'int', value: 7.9, expected: '7' },
+            { codec: 'number', value: 1.5, expected: '1.5' },
+            { codec: 'boolean', value: false, expected: 'false' },
+        ] as { codec: ParamCodecName; value: unknown; expected: string; }[])("Should serialize $value as '$expected' with the '$codec' codec.", ({ codec, value, expected }) => {
+            // Act.
+            const result = builtInParamCodecs[codec].serialize(value);
+
+            // Assert.
+            expect(result).toBe(expected);
+        });
+    });
+
+    describe("resolveParamCodec", () => {
+        test("Should return the built-in codec of the given name.", () => {
+            // Act.
+            const result = resolveParamCodec('int');
+
+            // Assert.
+            expect(result).toBe(builtInParamCodecs.int);
+        });
+
+        test("Should return codec objects as-is.", () => {
+            // Arrange.
+            const codec: ParamCodec<Date> = {
+                parse: (value) => new Date(value),
+                serialize: (value) => value.toISOString(),
+            };
+
+            // Act.
+            const result = resolveParamCodec(codec);
+
+            // Assert.
+            expect(result).toBe(codec);
+        });
+
+        test("Should throw an error for unknown codec names.", () => {
+            // Act.
+            // @ts-expect-error Testing an invalid codec name.
+            const act = () => resolveParamCodec('date');
+
+            // Assert.
+            expect(act).toThrowError();
+        });
+    });
+
+    describe("getParamCodec", () => {
+        afterEach(() => {
+            resetRoutingOptions();
+        });
+
+        test("Should prefer the route's codec over the paramCodecs routing option.", () => {
+            // Arrange.
+            setRoutingOptions({ paramCodecs: { id: 'string' } });
+
+            // Act.
+            const result = getParamCodec('id', { id: 'int' });
+
+            // Assert.
+            expect(result).toBe(builtInParamCodecs.int);
+        });
+
+        test("Should use the paramCodecs routing option when the route has no codec for the parameter.", () => {
+            // Arrange.
+            setRoutingOptions({ paramCodecs: { id: 'string' } });
+
+            // Act.
+            const result = getParamCodec('id', { other: 'int' });
+
+            // Assert.
+            expect(result).toBe(builtInParamCodecs.string);
+        });
+
+        test.each([
+            { text: 'the default', defaultParamCodec: undefined, expected: 'auto' },
+            { text: 'the configured', defaultParamCodec: 'boolean', expected: 'boolean' },
+        ] as { text: string; defaultParamCodec?: ParamCodecName; expected: ParamCodecName; }[])("Should fall back to $text defaultParamCodec routing option.", ({ defaultParamCodec, expected }) => {
+            // Arrange.
+            setRoutingOptions({ defaultParamCodec });
+
+            // Act.
+            const result = getParamCodec('id');
+
+            // Assert.
+            expect(result).toBe(builtInParamCodecs[expected]);
+        });
+    });
+});
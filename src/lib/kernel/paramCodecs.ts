@@ -0,0 +1,68 @@
+import type { ParamCodec, ParamCodecName, ParamCodecs, ParamCodecSpec, ParameterValue } from "../types.js";
+import { routingOptions } from "./options.js";
+
+const intRegex = /^[-+]?\d+$/;
+
+function parseNumber(value: string) {
+    const num = Number(value);
+    return value.trim() === '' || isNaN(num) ? undefined : num;
+}
+
+function parseBoolean(value: string) {
+    return value === 'true' ? true : value === 'false' ? false : undefined;
+}
+
+/**
+ * Built-in parameter codecs, by name.
+ */
+export const builtInParamCodecs: Record<ParamCodecName, ParamCodec<unknown>> = {
+    auto: {
+        parse: (value: string): ParameterValue => value === '' ? value : parseNumber(value) ?? parseBoolean(value) ?? value,
+        serialize: String,
+    },
+    string: {
+        parse: (value: string) => value,
+        serialize: String,
+    },
+    int: {
+        parse: (value: string) => intRegex.test(value) ? Number(value) : undefined,
+        serialize: (value: number) => Math.trunc(value).toString(),
+    },
+    number: {
+        parse: parseNumber,
+        serialize: String,
+    },
+    boolean: {
+        parse: parseBoolean,
+        serialize: String,
+    },
+};
+
+/**
+ * Resolves a parameter codec specification into a codec object.
+ * @param spec The name of a built-in codec, or a codec object.
+ * @returns The codec object.
+ */
+export function resolveParamCodec(spec: ParamCodecSpec): ParamCodec<unknown> {
+    if (typeof spec !== 'string') {
+        return spec;
+    }
+    const codec = builtInParamCodecs[spec];
+    if (!codec) {
+        throw new Error(`Unknown parameter codec "${spec}".`);
+    }
+    return codec;
+}
+
+/**
+ * Obtains the codec to use for the specified parameter, honoring the precedence of route codecs over the ones in the
+ * `paramCodecs` routing option, and those over the `defaultParamCodec` routing option.
+ * @param paramName The parameter's name.
+ * @param routeCodecs The codecs specified by the route, if any.
+ * @returns The codec object.
+ */
+export function getParamCodec(paramName: string, routeCodecs?: ParamCodecs): ParamCodec<unknown> {
+    return resolveParamCodec(
+        routeCodecs?.[paramName] ?? routingOptions.paramCodecs[paramName] ?? routingOptions.defaultParamCodec
+    );
+}
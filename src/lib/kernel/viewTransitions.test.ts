@@ -0,0 +1,118 @@
+import { describe, test, expect, afterEach, vi } from "vitest";
+import {
+    navigationDirectionAttribute,
+    resetViewTransitions,
+    runNavigationUpdate,
+    setViewTransitions,
+    traversalDirection
+} from "./viewTransitions.js";
+import type { NavigationDirection } from "../types.js";
+import { logger } from "./Logger.js";
+import { stubViewTransitions } from "$test/test-utils.js";
+
+describe("viewTransitions", () => {
+    afterEach(() => {
+        resetViewTransitions();
+        // @ts-expect-error Stubbing the View Transitions API for testing.
+        delete document.startViewTransition;
+    });
+
+    describe("traversalDirection", () => {
+        test.each<{ fromIndex: number | undefined; toIndex: number | undefined; expected: NavigationDirection }>([
+            { fromIndex: 2, toIndex: 1, expected: 'back' },
+            { fromIndex: 1, toIndex: 2, expected: 'forward' },
+            { fromIndex: 1, toIndex: 1, expected: 'none' },
+            { fromIndex: undefined, toIndex: 1, expected: 'none' },
+            { fromIndex: 1, toIndex: undefined, expected: 'none' },
+        ])("Should return '$expected' when traversing from index $fromIndex to index $toIndex.", ({ fromIndex, toIndex, expected }) => {
+            // Act.
+            const result = traversalDirection(fromIndex, toIndex);
+
+            // Assert.
+            expect(result).toBe(expected);
+        });
+    });
+
+    describe("runNavigationUpdate", () => {
+        test("Should run the update right away without setting the direction attribute when turned off.", () => {
+            // Arrange.
+            const startViewTransition = vi.fn();
+            document.startViewTransition = startViewTransition;
+            const update = vi.fn();
+
+            // Act.
+            runNavigationUpdate(update, 'forward');
+
+            // Assert.
+            expect(update).toHaveBeenCalledOnce();
+            expect(startViewTransition).not.toHaveBeenCalled();
+            expect(document.documentElement.hasAttribute(navigationDirectionAttribute)).toBe(false);
+        });
+
+        test("Should set the direction attribute and run the update right away when the API is not available.", () => {
+            // Arrange.
+            setViewTransitions(true);
+            const update = vi.fn();
+
+            // Act.
+            runNavigationUpdate(update, 'back');
+
+            // Assert.
+            expect(update).toHaveBeenCalledOnce();
+            expect(document.documentElement.getAttribute(navigationDirectionAttribute)).toBe('back');
+        });
+
+        test("Should run the update inside a view transition when the API is available.", async () => {
+            // Arrange.
+            setViewTransitions(true);
+            const viewTransitions = stubViewTransitions();
+            const update = vi.fn();
+
+            // Act.
+            runNavigationUpdate(update, 'forward');
+            const calledBeforeTransition = update.mock.calls.length > 0;
+            await viewTransitions.runUpdates();
+
+            // Assert.
+            expect(viewTransitions.startViewTransition).toHaveBeenCalledOnce();
+            expect(calledBeforeTransition).toBe(false);
+            expect(update).toHaveBeenCalledOnce();
+            expect(document.documentElement.getAttribute(navigationDirectionAttribute)).toBe('forward');
+        });
+
+        test("Should log the error of an update that fails inside a view transition.", async () => {
+            // Arrange.
+            setViewTransitions(true);
+            const viewTransitions = stubViewTransitions();
+            const error = new Error("Update failed.");
+            const logError = vi.spyOn(logger, 'error').mockImplementation(() => { });
+
+            // Act.
+            runNavigationUpdate(() => { throw error; }, 'forward');
+            await viewTransitions.runUpdates();
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            // Assert.
+            expect(logError).toHaveBeenCalledExactlyOnceWith(expect.any(String), error);
+            logError.mockRestore();
+        });
+    });
+
+    describe("resetViewTransitions", () => {
+        test("Should remove the direction attribute and turn the integration off.", () => {
+            // Arrange.
+            setViewTransitions(true);
+            runNavigationUpdate(() => {}, 'forward');
+            const update = vi.fn();
+            document.startViewTransition = vi.fn();
+
+            // Act.
+            resetViewTransitions();
+            runNavigationUpdate(update, 'forward');
+
+            // Assert.
+            expect(document.documentElement.hasAttribute(navigationDirectionAttribute)).toBe(false);
+            expect(update).toHaveBeenCalledOnce();
+        });
+    });
+});
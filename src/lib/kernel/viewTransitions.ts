@@ -0,0 +1,72 @@
+import { tick } from "svelte";
+import type { NavigationDirection } from "../types.js";
+import { logger } from "./Logger.js";
+
+/**
+ * Name of the attribute of the `<html>` element that holds the direction of the last navigation.
+ */
+export const navigationDirectionAttribute = 'data-navigation-direction';
+
+let enabled = false;
+
+/**
+ * Turns the integration with the View Transitions API on or off.
+ * @param value The value of the `viewTransitions` initialization option.
+ */
+export function setViewTransitions(value?: boolean) {
+    enabled = !!value;
+}
+
+/**
+ * Turns the integration with the View Transitions API off, and removes the navigation direction attribute.
+ */
+export function resetViewTransitions() {
+    enabled = false;
+    globalThis.document?.documentElement.removeAttribute(navigationDirectionAttribute);
+}
+
+/**
+ * Determines the direction of a history traversal by comparing the indexes of the history entries involved.
+ * @param fromIndex The index of the history entry the traversal starts at.
+ * @param toIndex The index of the history entry the traversal ends at.
+ * @returns The direction of the traversal.
+ */
+export function traversalDirection(fromIndex: number | undefined, toIndex: number | undefined): NavigationDirection {
+    if (fromIndex === undefined || toIndex === undefined || fromIndex === toIndex) {
+        return 'none';
+    }
+    return toIndex < fromIndex ? 'back' : 'forward';
+}
+
+/**
+ * Runs the given function, which updates the URL and state, inside a view transition when the integration with the 
+ * View Transitions API is on.  Environments without the API run the function right away.
+ *
+ * The browser runs the function of a view transition asynchronously, after capturing the current content.  Because 
+ * of this, the update cannot fail the caller, and errors are logged instead.
+ * @param update The function that updates the URL and state.
+ * @param direction The direction of the navigation, which is set in the `<html>` element's 
+ * `data-navigation-direction` attribute.
+ */
+export function runNavigationUpdate(update: () => void, direction: NavigationDirection) {
+    const document = globalThis.document;
+    if (!enabled || !document) {
+        update();
+        return;
+    }
+    document.documentElement.setAttribute(navigationDirectionAttribute, direction);
+    if (typeof document.startViewTransition !== 'function') {
+        update();
+        return;
+    }
+    const transition = document.startViewTransition(async () => {
+        update();
+        // Let Svelte render the new content before the browser captures it.
+        await tick();
+    });
+    transition.updateCallbackDone.catch((err) => {
+        logger.error("The navigation update of a view transition failed.", err);
+    });
+    // The transition only fails when the update fails, which has been logged already.
+    transition.finished.catch(() => { });
+}
@@ -0,0 +1,56 @@
+import { describe, test, expect } from "vitest";
+import { createRoutes } from "./public-utils.js";
+import type { RouteDefinition } from "./types.js";
+
+describe("createRoutes", () => {
+    test("Should return the given route definitions.", () => {
+        // Arrange.
+        const routes = [
+            { key: 'home', path: '/' },
+            { key: 'users', path: '/users', children: [{ key: 'user', path: '/:id' }] },
+        ];
+
+        // Act.
+        const result = createRoutes(routes);
+
+        // Assert.
+        expect(result).toBe(routes);
+    });
+
+    test.each<{ text: string; routes: RouteDefinition[] }>([
+        {
+            text: 'a route has no key',
+            routes: [{ key: '', path: '/' }],
+        },
+        {
+            text: 'sibling routes share a key',
+            routes: [{ key: 'home', path: '/' }, { key: 'home', path: '/home' }],
+        },
+        {
+            text: 'child routes share a key',
+            routes: [{ key: 'users', path: '/users', children: [{ key: 'a', path: '/a' }, { key: 'a', path: '/b' }] }],
+        },
+        {
+            text: 'a route with children has a regular expression path',
+            routes: [{ key: 'users', path: /^\/users/, children: [{ key: 'user', path: '/:id' }] }],
+        },
+        {
+            text: 'a route with children has no path',
+            routes: [{ key: 'users', children: [{ key: 'user', path: '/:id' }] }],
+        },
+    ])("Should throw an error when $text.", ({ routes }) => {
+        // Act.
+        const act = () => createRoutes(routes);
+
+        // Assert.
+        expect(act).toThrowError();
+    });
+
+    test("Should allow the same key in routes of different levels.", () => {
+        // Act.
+        const act = () => createRoutes([{ key: 'users', path: '/users', children: [{ key: 'users', path: '/' }] }]);
+
+        // Assert.
+        expect(act).not.toThrowError();
+    });
+});
@@ -1,5 +1,5 @@
 import { RouterEngine } from "./kernel/RouterEngine.svelte.js";
-import type { RouteStatus } from "./types.js";
+import type { RouteDefinition, RouteStatus } from "./types.js";
 
 /**
  * Checks if a specific route is active according to the provided router engine or route status record.
@@ -16,3 +16,35 @@ export function isRouteActive(
     const rs = rsOrRouter instanceof RouterEngine ? rsOrRouter.routeStatus : rsOrRouter;
     return !!rs?.[key ?? '']?.match;
 }
+
+function validateRoutes(routes: readonly RouteDefinition[], parentKey?: string) {
+    const keys = new Set<string>();
+    for (let route of routes) {
+        if (!route.key) {
+            throw new Error(`A route without a key was found${parentKey ? ` among the children of route "${parentKey}"` : ''}.`);
+        }
+        if (keys.has(route.key)) {
+            throw new Error(`The route key "${route.key}" is used more than once among sibling routes.`);
+        }
+        keys.add(route.key);
+        if (route.children) {
+            if (typeof route.path !== 'string') {
+                throw new Error(`The route with key "${route.key}" has children, so its path must be a string pattern.`);
+            }
+            validateRoutes(route.children, route.key);
+        }
+    }
+}
+
+/**
+ * Creates a route table, which is a tree of route definitions that can be rendered with the `RouterView` component.
+ *
+ * Route tables are plain data, so they can also be consumed by other code, such as server code, sitemap generators or 
+ * unit tests.
+ * @param routes The route definitions.
+ * @returns The validated route definitions.
+ */
+export function createRoutes<const T extends readonly RouteDefinition[]>(routes: T): T {
+    validateRoutes(routes);
+    return routes;
+}
@@ -73,6 +73,17 @@ export const ALL_HASHES = {
     implicit: undefined,
 } as const;
 
+/**
+ * Builds a URL whose path, as seen by routers of the given routing universe, is the given path.
+ */
+export function buildUniverseUrl(universe: RoutingUniverse, path: string, origin = "http://example.com") {
+    const hash = universe.hash ?? universe.defaultHash;
+    if (typeof hash === 'string') {
+        return `${origin}/#${hash}=${path}`;
+    }
+    return hash ? `${origin}/#${path}` : `${origin}${path}`;
+}
+
 /**
  * Creates a router and context setup for testing
  */
@@ -243,6 +254,7 @@ export function createHistoryMock() {
         pushState: pushStateMock,
         replaceState: replaceStateMock,
         get length() { return 1; }, // Simple mock value
+        scrollRestoration: 'auto' as ScrollRestoration,
         go: vi.fn(),
         back: vi.fn(),
         forward: vi.fn(),
@@ -385,3 +397,50 @@ export function setupSimpleBrowserMocks(initialUrl = "http://example.com/") {
         },
     };
 }
+
+/**
+ * Stubs the View Transitions API with transitions whose update callbacks run when `runUpdates()` is called, much like 
+ * browsers run them after capturing the current content.
+ */
+export function stubViewTransitions() {
+    let pending: (() => Promise<void>)[] = [];
+    const startViewTransition = vi.fn((callback?: ViewTransitionUpdateCallback | StartViewTransitionOptions) => {
+        let settle!: (err?: unknown) => void;
+        const updateCallbackDone = new Promise<void>((resolve, reject) => {
+            settle = (err) => err === undefined ? resolve() : reject(err);
+        });
+        pending.push(async () => {
+            try {
+                await (callback as ViewTransitionUpdateCallback | undefined)?.();
+                settle();
+            }
+            catch (err) {
+                settle(err);
+            }
+        });
+        return {
+            updateCallbackDone,
+            finished: updateCallbackDone.then(() => { }),
+            skipTransition: vi.fn(),
+        } as unknown as ViewTransition;
+    });
+    document.startViewTransition = startViewTransition;
+
+    return {
+        startViewTransition,
+        /**
+         * Runs the update callbacks of the transitions started so far.
+         */
+        runUpdates: async () => {
+            const updates = pending;
+            pending = [];
+            for (const update of updates) {
+                await update();
+            }
+        },
+        cleanup: () => {
+            // @ts-expect-error Stubbing the View Transitions API for testing.
+            delete document.startViewTransition;
+        },
+    };
+}
@@ -1,4 +1,6 @@
+import type { Component } from "svelte";
 import type { AriaAttributes, ClassValue, HTMLAnchorAttributes } from "svelte/elements";
+import type { TransitionConfig } from "svelte/transition";
 
 /**
  * Defines the data type of all `hash` properties found in almost all of the library's components.
@@ -27,6 +29,16 @@ export type State = {
      * the value is stored using the hash identifier as the key.
      */
     hash: Record<string, any>;
+    /**
+     * Holds the position of the history entry, relative to the first entry the library knows about.  It is 
+     * maintained by the `HistoryApi` implementations, and is used to undo cancelled history traversals.
+     */
+    index?: number;
+    /**
+     * Holds a random key that identifies the history entry.  It is maintained by the `HistoryApi` implementations, 
+     * and survives replace operations.
+     */
+    key?: string;
 }
 
 /**
@@ -34,10 +46,60 @@ export type State = {
  */
 export type ParameterValue = string | number | boolean;
 
+/**
+ * Defines the shape of parameter codecs, which convert route parameter values from and to their URL representation.
+ */
+export type ParamCodec<T = unknown> = {
+    /**
+     * Converts the URL-decoded parameter value into the parameter's typed value.
+     * @param value The parameter value, as found in the URL (after decoding).
+     * @returns The typed value, or `undefined` if the value is not valid, in which case the route does not match.
+     */
+    parse(value: string): T | undefined;
+    /**
+     * Converts the typed value into its URL representation.  The result is URL-encoded by the caller.
+     * @param value The typed value.
+     * @returns The value's string representation.
+     */
+    serialize(value: T): string;
+};
+
+/**
+ * Defines the names of the built-in parameter codecs:
+ * 
+ * + `'auto'`:  Numbers become `number`, the words `'true'` and `'false'` become `boolean`, and anything else is a 
+ * `string`.
+ * + `'string'`:  The value is taken as-is.
+ * + `'int'`:  Only integer values are accepted.
+ * + `'number'`:  Only numeric values are accepted.
+ * + `'boolean'`:  Only the words `'true'` and `'false'` are accepted.
+ */
+export type ParamCodecName = 'auto' | 'string' | 'int' | 'number' | 'boolean';
+
+/**
+ * Defines the possible ways of specifying a parameter codec:  By the name of a built-in codec, or a codec object.
+ */
+export type ParamCodecSpec = ParamCodecName | ParamCodec<unknown>;
+
+/**
+ * Defines the shape of parameter codec maps, where the keys are parameter names.
+ */
+export type ParamCodecs = Record<string, ParamCodecSpec>;
+
+/**
+ * Obtains the data type of the values produced by the given parameter codec specification.  Codecs of unknown values 
+ * (such as the ones of `ParamCodecs`) produce parameter values.
+ */
+export type ParamCodecValue<S> = S extends 'string' ? string
+    : S extends 'int' | 'number' ? number
+    : S extends 'boolean' ? boolean
+    : S extends ParamCodec<infer V> ? (unknown extends V ? ParameterValue : V)
+    : ParameterValue;
+
 /**
  * Defines the shape of the data generated by router engines regarding routes.
  */
-export type RouteStatus = {
+export type RouteStatus<TParams extends Record<string, unknown> = Record<string, ParameterValue>> = {
     /**
      * Indicates whether the route matches the current URL.
      */
@@ -45,9 +107,14 @@ export type RouteStatus = {
     /**
      * Contains the route's parameters, if any.
      * 
-     * This is only available if the route has matched.
+     * This is only available if the route has matched.  The values are produced by the parameter codecs that apply 
+     * to the route (see `CoreRouteInfo.paramCodecs`).
      */
-    routeParams?: Record<string, ParameterValue>;
+    routeParams?: TParams;
+    /**
+     * The pattern that matched the URL, for routes with several patterns (aliases).
+     */
+    alias?: string;
 }
 
 /**
@@ -55,6 +122,117 @@ export type RouteStatus = {
  */
 export type AndUntyped = (params: Record<string, ParameterValue> | undefined) => boolean;
 
+/**
+ * Defines the data given to route guards.
+ */
+export type RouteGuardContext<TParams = Record<string, ParameterValue>> = {
+    /**
+     * The route's parameters, if any.
+     */
+    params: TParams | undefined;
+    /**
+     * The state object stored in the window's History API for the routing universe of the route.
+     */
+    state: any;
+    /**
+     * The current URL.
+     */
+    url: URL;
+};
+
+/**
+ * Defines the ways a route guard can request a redirection:  A path, or a path plus navigation options.
+ * 
+ * Redirection is always done by replacing the current URL, and takes place in the route's routing universe unless the 
+ * `hash` option says otherwise.
+ */
+export type GuardRedirect = string | ({
+    /**
+     * The path to redirect to.
+     */
+    href: string;
+} & Omit<NavigateOptions, 'replace'>);
+
+/**
+ * Defines the possible results of route guards:  `true` lets the route match, `false` prevents the route from 
+ * matching, and a redirection target prevents the route from matching and redirects to the target.
+ */
+export type GuardResult = boolean | GuardRedirect;
+
+/**
+ * Defines the shape of route guard functions.
+ */
+export type RouteGuard<TParams = Record<string, ParameterValue>> = (context: RouteGuardContext<TParams>) => GuardResult | Promise<GuardResult>;
+
+/**
+ * Defines the ways a route can redirect when it matches:  A path pattern, or a path pattern plus options.
+ * 
+ * The pattern is relative to the router's base path, and its parameters take the values of the matching route's 
+ * parameters, so `{ pattern: '/old/:id', redirect: '/new/:id' }` redirects `/old/42` to `/new/42`.
+ */
+export type RouteRedirect = string | {
+    /**
+     * The path pattern to redirect to.
+     */
+    to: string;
+    /**
+     * Whether to preserve the current query parameters (or the ones specified) in the new URL.
+     */
+    preserveQuery?: PreserveQuery;
+};
+
+/**
+ * Defines the possible values of route titles:  A string, or a function that builds the title from the route's 
+ * parameters and state.
+ */
+export type RouteTitle<TParams = Record<string, ParameterValue>> = string | ((params: TParams | undefined, state: any) => string);
+
+/**
+ * Defines the data given to route data loaders.
+ */
+export type RouteLoadContext<TParams = Record<string, ParameterValue>> = {
+    /**
+     * The route's parameters, if any.
+     */
+    params: TParams | undefined;
+    /**
+     * The current URL.
+     */
+    url: URL;
+    /**
+     * The state object stored in the window's History API for the routing universe of the route.
+     */
+    state: any;
+    /**
+     * Signal that is aborted when the result of the load is no longer needed, because the route's parameters changed, 
+     * or because the route stopped matching.
+     */
+    signal: AbortSignal;
+};
+
+/**
+ * Defines the shape of route data loader functions.
+ */
+export type RouteLoader<TParams = Record<string, ParameterValue>, TData = unknown> = (context: RouteLoadContext<TParams>) => Promise<TData> | TData;
+
+/**
+ * Defines the state of the data loaded by a route's data loader.
+ */
+export type RouteLoadState<TData = unknown> = {
+    /**
+     * The loaded data.  While a new load is in progress, this is the data of the previous load.
+     */
+    data: TData | undefined;
+    /**
+     * Whether a load is in progress.
+     */
+    loading: boolean;
+    /**
+     * The error thrown by the last load, if it failed; `undefined` otherwise.
+     */
+    error: unknown;
+};
+
 /**
  * Defines the core properties of a route definition.
  */
@@ -63,10 +241,59 @@ export type CoreRouteInfo = {
      * An optional predicate function that is used to further test if the route should be matched.
      */
     and?: AndUntyped;
+    /**
+     * An optional guard function that decides whether the route can match, and that may redirect elsewhere.
+     * 
+     * The guard only runs after the route's pattern (or regular expression) and the `and` predicate have matched (and, 
+     * in exclusive mode, after the route has won the ranking), and runs again whenever the route's path or parameters 
+     * change while this is the case.  Other URL changes, such as query string changes, don't run the guard again.
+     * 
+     * While an asynchronous guard is pending or the guard redirects, the route does not match, but neither counts as 
+     * a non-matching route for fallback purposes.  Routes that the guard allowed keep matching while the guard runs 
+     * again.  Guards don't run during server-side rendering.
+     */
+    guard?: RouteGuard;
+    /**
+     * An optional redirection for when the route matches.
+     * 
+     * Redirection replaces the current URL and takes place in the route's routing universe.  Routes with a redirection 
+     * never match, but neither count as non-matching routes for fallback purposes while they would match.
+     */
+    redirect?: RouteRedirect;
     /**
      * A Boolean value that determines if the route's match status should be ignored for fallback purposes.
      */
     ignoreForFallback?: boolean;
+    /**
+     * An optional map of parameter codecs, where the keys are parameter names.
+     * 
+     * Codecs parse the parameter values when the route matches, and serialize them when building URLs.  Parameters 
+     * not listed here use the codecs set in the `paramCodecs` routing option, or the `defaultParamCodec` routing option.
+     * 
+     * @example
+     * ```typescript
+     * { pattern: '/users/:id/:slug', paramCodecs: { id: 'int', slug: 'string' } }
+     * ```
+     */
+    paramCodecs?: ParamCodecs;
+    /**
+     * An optional document title for when the route matches.
+     * 
+     * The title of the deepest matching route is applied, formatted with the `titleTemplate` initialization option, 
+     * and the previous title is restored once no route with a title matches.
+     */
+    title?: RouteTitle;
+    /**
+     * Optional meta tags for the document for when the route matches, where the keys are the tags' names and the 
+     * values their content.  Meta tags of deeper routes override the ones of shallower routes.
+     */
+    metaTags?: Record<string, string>;
+    /**
+     * Optional arbitrary data about the route, such as breadcrumb labels, required roles or layout names.
+     * 
+     * The library does not use it.  It is made available in the `matches` property of router engines.
+     */
+    meta?: Record<string, unknown>;
 }
 
 /**
@@ -87,8 +314,11 @@ export type RegexRouteInfo = CoreRouteInfo & {
 export type PatternRouteInfo = CoreRouteInfo & {
     /**
      * The pattern that the URL's pathname must match.  It can contain route parameters in the form of `:paramName`.
+     * 
+     * Give an array of patterns to make the route match any of them (aliases).  The patterns are tried in order, and 
+     * the one that matched is reported in the route's status.
      */
-    pattern?: string;
+    pattern?: string | string[];
     /**
      * Whether the pattern is case-sensitive.
      * @default false
@@ -101,6 +331,60 @@ export type PatternRouteInfo = CoreRouteInfo & {
  */
 export type RouteInfo = RegexRouteInfo | PatternRouteInfo;
 
+/**
+ * Defines the shape of the entries of route tables, which are route trees defined as data.
+ * 
+ * Route tables are created with the `createRoutes` function and are rendered by `RouterView` components.
+ */
+export type RouteDefinition = CoreRouteInfo & {
+    /**
+     * The route's unique key among its sibling routes.
+     */
+    key: string;
+    /**
+     * The route's path pattern, or a regular expression used to test and match the URL.  It works exactly like the 
+     * `path` property of `Route` components.
+     * 
+     * The paths of child routes are relative to this path, so routes with children must use a pattern.
+     */
+    path?: string | RegExp;
+    /**
+     * Whether the route's path pattern is case-sensitive.
+     * @default false
+     */
+    caseSensitive?: boolean;
+    /**
+     * The component rendered when the route matches.
+     * 
+     * It receives the route's parameters and state in the `params` and `state` properties, plus the child routes' 
+     * content in the `children` snippet property, if the route has children.
+     */
+    component?: Component<any>;
+    /**
+     * Additional properties given to the route's component.
+     */
+    props?: Record<string, unknown>;
+    /**
+     * Whether the scroll manager may change the scroll position after navigation while the route matches.  It works 
+     * exactly like the `scroll` property of `Route` components.
+     * @default true
+     */
+    scroll?: boolean;
+    /**
+     * The transitions of the route's content.  It works exactly like the `transition` property of `Route` components.
+     */
+    transition?: RouteTransition;
+    /**
+     * The view transition name of the route's content.  It works exactly like the `viewTransitionName` property of 
+     * `Route` components.
+     */
+    viewTransitionName?: ViewTransitionName;
+    /**
+     * The route's child routes.
+     */
+    children?: readonly RouteDefinition[];
+};
+
 /**
  * Defines the options that can be used when calling `Location.goTo`.
  */
@@ -170,6 +454,27 @@ export interface Location {
      * @param hash The hash value to get the state for.
      */
     getState(hash: Hash): any;
+    /**
+     * Gets the position of the current history entry, where `0` is the entry the user landed in.
+     * 
+     * Unlike `history.length`, this only accounts for entries created by the application, so it can be used to 
+     * determine whether the user deep-linked into the current page.
+     */
+    readonly index: number;
+    /**
+     * Gets a value indicating whether there is an application history entry before the current one.
+     */
+    readonly canGoBack: boolean;
+    /**
+     * Gets a value indicating whether there is a known application history entry after the current one.
+     * 
+     * Forward entries are only known if they were visited since the application was loaded.
+     */
+    readonly canGoForward: boolean;
+    /**
+     * Gets the application history entries visited since the application was loaded, ordered by their position.
+     */
+    readonly entries: readonly HistoryEntry[];
     /**
      * Navigates to the specified URL as it is given.
      * 
@@ -221,7 +526,9 @@ export interface Location {
     /**
      * Adds an event listener for the `beforfeNavigate` event.
      * 
-     * This event has the ability to cancel navigation by calling the `cancel` method on the event object.
+     * This event has the ability to cancel navigation by calling the `cancel` method on the event object.  Handlers 
+     * may return a promise to hold navigation until it settles (to ask the user for confirmation, for example).  A 
+     * newer navigation supersedes the held one, which is then cancelled with the `'superseded'` cause.
      * 
      * **IMPORTANT:**  This is a feature only available when initializing the routing library with the 
      * {@link initFull} function.
@@ -229,7 +536,7 @@ export interface Location {
      * @param callback The callback to invoke when the event occurs.
      * @returns A function that removes the event listener.
      */
-    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void): () => void;
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
     /**
      * Adds an event listener for the `navigationCancelled` event.
      * 
@@ -242,12 +549,165 @@ export interface Location {
      * @returns A function that removes the event listener.
      */
     on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
+    /**
+     * Adds an event listener for the `navigationStart` event.
+     * 
+     * This event occurs when navigation starts, before any `beforeNavigate` handlers run.  Navigation that is not 
+     * started by the location object (history traversals, for example) raises it right before `afterNavigate`.
+     * @param event The event to listen for.
+     * @param callback The callback to invoke when the event occurs.
+     * @returns A function that removes the event listener.
+     */
+    on(event: 'navigationStart', callback: (event: NavigationStartEvent) => void): () => void;
+    /**
+     * Adds an event listener for the `afterNavigate` event.
+     * 
+     * This event occurs after navigation completes, once the URL and state have been updated.  This includes 
+     * history traversals and hash changes.
+     * @param event The event to listen for.
+     * @param callback The callback to invoke when the event occurs.
+     * @returns A function that removes the event listener.
+     */
+    on(event: 'afterNavigate', callback: (event: AfterNavigateEvent) => void): () => void;
+    /**
+     * Adds an event listener for the `navigationEnd` event.
+     * 
+     * This event occurs when navigation ends, whether it completed or was cancelled.
+     * @param event The event to listen for.
+     * @param callback The callback to invoke when the event occurs.
+     * @returns A function that removes the event listener.
+     */
+    on(event: 'navigationEnd', callback: (event: NavigationEndEvent) => void): () => void;
+    /**
+     * Registers a navigation blocker.
+     * 
+     * While the blocker is registered and its `when` condition is met, navigation through the location object or the 
+     * History API is cancelled (with the blocker's message as cause), and closing or reloading the browser tab 
+     * triggers the browser's native confirmation prompt.
+     * 
+     * When called during component initialization, the blocker is removed automatically when the component is 
+     * destroyed.  When called inside an effect, it is removed when the effect re-runs or is destroyed.  Otherwise, 
+     * the blocker stays registered until the returned function is called.
+     * 
+     * **IMPORTANT:**  This is a feature only available when initializing the routing library with the
+     * {@link initFull} function.
+     * @param options The blocker's options.
+     * @returns A function that removes the blocker.
+     */
+    block(options?: BlockOptions): () => void;
 }
 
+/**
+ * Defines the data of the application history entries visited by the user.
+ */
+export type HistoryEntry = {
+    /**
+     * The entry's position in the history stack.
+     */
+    index: number;
+    /**
+     * The key that identifies the entry.  It is `undefined` if the `HistoryApi` object does not maintain keys.
+     */
+    key: string | undefined;
+    /**
+     * The entry's URL, as of the last time it was visited.
+     */
+    url: string;
+};
+
+/**
+ * Defines the options of navigation blockers.
+ */
+export type BlockOptions = {
+    /**
+     * Determines whether the blocker is active.  Use a function to evaluate the condition at navigation time.
+     * 
+     * The browser's confirmation prompt is only set up while the blocker is active, so functions should depend on 
+     * reactive state for the prompt to follow the condition.
+     * 
+     * @default true
+     */
+    when?: boolean | (() => boolean);
+    /**
+     * The message used as cause when cancelling navigation, and given to the `beforeunload` event.
+     * 
+     * Note that browsers usually don't show custom messages in their native confirmation prompt.
+     */
+    message?: string;
+};
+
 /**
  * Defines the events that can be listened for on the location object.
  */
-export type Events = 'beforeNavigate' | 'navigationCancelled';
+export type Events = 'beforeNavigate' | 'navigationCancelled' | LifecycleEvents;
+
+/**
+ * Defines the navigation lifecycle events, which are available in both the lite and full modes.
+ */
+export type LifecycleEvents = 'navigationStart' | 'afterNavigate' | 'navigationEnd';
+
+/**
+ * Defines the possible types of navigation reported by the navigation lifecycle events.
+ *
+ * - `push`:  A new history entry was created.
+ * - `replace`:  The current history entry was replaced.
+ * - `pop`:  The history was traversed (back and forward navigation).
+ * - `hashchange`:  The URL's hash was changed by means other than the library (link clicks, for example).
+ */
+export type NavigationKind = 'push' | 'replace' | 'pop' | 'hashchange';
+
+/**
+ * Defines the possible directions of navigation, as deduced from the positions of the history entries involved.
+ *
+ * - `forward`:  The new history entry comes after the previous one (pushing, or traversing forward).
+ * - `back`:  The new history entry comes before the previous one (traversing back).
+ * - `none`:  The history entry kept its position (replacing, for example).
+ */
+export type NavigationDirection = 'forward' | 'back' | 'none';
+
+/**
+ * Represents the event that occurs when navigation starts.
+ */
+export type NavigationStartEvent = {
+    /**
+     * The type of navigation.
+     */
+    type: NavigationKind;
+    /**
+     * The URL before navigation.
+     */
+    previousUrl: string;
+    /**
+     * The URL navigated to.
+     */
+    url: string;
+};
+
+/**
+ * Represents the event that occurs after navigation completes.
+ */
+export type AfterNavigateEvent = NavigationStartEvent & {
+    /**
+     * The routing universes whose path or state changed, identified by their hash value:  `false` for the path 
+     * routing universe, `true` for the single hash routing universe, or the hash identifier for multi hash routing 
+     * universes.
+     */
+    universes: Hash[];
+    /**
+     * The direction of navigation.
+     */
+    direction: NavigationDirection;
+};
+
+/**
+ * Represents the event that occurs when navigation ends.
+ */
+export type NavigationEndEvent = NavigationStartEvent & {
+    /**
+     * Whether the navigation completed.  It is `false` if navigation was cancelled.
+     */
+    completed: boolean;
+};
 
 /**
  * Represents a navigation event.
@@ -263,8 +723,11 @@ export type NavigationEvent = {
     state: unknown;
     /**
      * The method of navigation that was used.
+     *
+     * The `pop` method is used for history traversals (back and forward navigation), and is only reported by
+     * `FullModeHistoryApi` implementations capable of detecting traversals before they happen.
      */
-    method: 'push' | 'replace';
+    method: 'push' | 'replace' | 'pop';
 }
 
 /**
@@ -291,6 +754,10 @@ export type BeforeNavigateEvent = NavigationEvent & {
  * Represents an event that occurs when navigation is cancelled.
  */
 export type NavigationCancelledEvent = NavigationEvent & {
+    /**
+     * The reason that was specified when the event was cancelled.  It is `'superseded'` when a newer navigation took 
+     * place while asynchronous `beforeNavigate` handlers held the cancelled one.
+     */
     cause: any;
 };
 
@@ -351,6 +818,92 @@ export type ActiveState = {
  */
 export type WhenPredicate = (routeStatus: Record<string, RouteStatus>, noMatches: boolean) => boolean;
 
+/**
+ * Defines the possible values of the `breadcrumb` metadata of routes used by the `Breadcrumbs` component:  A string, 
+ * or a function that builds the label from the route's parameters.
+ */
+export type BreadcrumbLabel<TParams = Record<string, ParameterValue>> = string | ((params: TParams | undefined) => string);
+
+/**
+ * Defines the data of the items rendered by the `Breadcrumbs` component.
+ */
+export type BreadcrumbItem = {
+    /**
+     * The key of the route the item stands for.
+     */
+    key: string;
+    /**
+     * The item's label, as resolved from the route's `breadcrumb` metadata.
+     */
+    label: string;
+    /**
+     * The path that leads to the route, or `undefined` if the route has no pattern to build it from.  The value of the 
+     * route's rest parameter is not part of the path.
+     */
+    path: string | undefined;
+    /**
+     * The route's parameters, if any.
+     */
+    params: Record<string, ParameterValue> | undefined;
+    /**
+     * The route's arbitrary data.
+     */
+    meta: Record<string, unknown> | undefined;
+    /**
+     * Whether this is the last item, which stands for the current page.
+     */
+    current: boolean;
+};
+
+/**
+ * Defines the possible values of the view transition name of routes:  A string, or a function that builds the name 
+ * from the route's parameters.
+ */
+export type ViewTransitionName<TParams = Record<string, ParameterValue>> = string | ((params: TParams | undefined) => string);
+
+/**
+ * Defines the possible orders in which the content of outgoing and incoming routes animates.
+ *
+ * - `out-in`:  Outgoing content animates first, and incoming content animates once it is done.
+ * - `in-out`:  Incoming content animates first, and outgoing content animates once it is done.
+ * - `simultaneous`:  Outgoing and incoming content animate at the same time.
+ */
+export type RouteTransitionMode = 'out-in' | 'in-out' | 'simultaneous';
+
+/**
+ * Defines the navigation data given to route transition functions.
+ */
+export type RouteTransitionInfo = {
+    /**
+     * The type of the navigation that caused the transition, or `undefined` if there hasn't been any navigation yet.
+     */
+    type: NavigationKind | undefined;
+    /**
+     * The direction of the navigation that caused the transition.
+     */
+    direction: NavigationDirection;
+};
+
+/**
+ * Defines the shape of route transition functions.  They work like Svelte transition functions, except that they 
+ * receive navigation data instead of parameters.
+ */
+export type RouteTransitionFunction = (node: Element, info: RouteTransitionInfo) => TransitionConfig;
+
+/**
+ * Defines the transitions of a route's content.
+ */
+export type RouteTransition = {
+    /**
+     * The transition played when the route starts matching.
+     */
+    in?: RouteTransitionFunction;
+    /**
+     * The transition played when the route stops matching.
+     */
+    out?: RouteTransitionFunction;
+};
+
 /**
  * Defines the shape of logger objects that can be given to this library during initialization.
  */
@@ -406,6 +959,24 @@ export type RoutingOptions = {
      * @default false
      */
     defaultHash?: Hash;
+    /**
+     * Parameter codecs that apply to all routes, where the keys are parameter names.
+     * 
+     * Codecs specified by the routes themselves take precedence over these.
+     * 
+     * @default {}
+     */
+    paramCodecs?: ParamCodecs;
+    /**
+     * Parameter codec used for all parameters that don't have a codec specified, neither by the route, nor by the 
+     * `paramCodecs` option.
+     * 
+     * The default value, `'auto'`, converts numeric values to numbers and the words `'true'` and `'false'` to Booleans.
+     * Set it to `'string'` to keep all parameter values as strings (to preserve zero-padded IDs, for example).
+     * 
+     * @default 'auto'
+     */
+    defaultParamCodec?: ParamCodecSpec;
 }
 
 /**
@@ -450,14 +1021,81 @@ export type InitOptions = RoutingOptions & {
      * **TIP**: You can provide your own logger implementation to integrate with your application's logging system.
      */
     logger?: boolean | ILogger;
+    /**
+     * Turns on the library's scroll manager, which records the scroll positions of the window and of the elements 
+     * marked with the `data-scroll-container` attribute per history entry.  The attribute's value identifies the 
+     * container.
+     * 
+     * History traversals restore the recorded positions, pushed entries start at the top (or at the element targeted 
+     * by the URL's hash), and replaced entries keep their scroll position.  Routes can opt out with their `scroll` 
+     * property.
+     * 
+     * @default false
+     */
+    scroll?: boolean;
+    /**
+     * Turns on focus management and navigation announcements for all routers, or sets their options.  Routers can 
+     * override it with their `focus` property.
+     * 
+     * When enabled, navigation that changes which routes match moves focus to the first element found with the 
+     * target selectors, and announces the new page's title through a visually hidden live region, so screen reader 
+     * users get feedback about the new content.
+     * 
+     * @default false
+     */
+    focus?: boolean | FocusManagementOptions;
+    /**
+     * Template used to format route titles, where `%s` is replaced with the route's title.
+     * 
+     * @example '%s | My Application'
+     * @default '%s'
+     */
+    titleTemplate?: string;
+    /**
+     * Turns on the integration with the View Transitions API.  URL and state updates made by navigation and history 
+     * traversals happen inside `document.startViewTransition()`, so the browser animates between the old and new 
+     * content.  Environments without the API update the URL and state right away.
+     * 
+     * Because the browser runs the update after capturing the current content, `location.url` and `location.getState()` 
+     * don't reflect the new URL and state as soon as `navigate()` or `goTo()` return.  Code that needs them must wait 
+     * for the `afterNavigate` event, or react to `location.url` changes.
+     * 
+     * The direction of every navigation (`forward`, `back` or `none`) is set in the `data-navigation-direction` 
+     * attribute of the `<html>` element, so CSS can tell navigation directions apart.  Routes can name their content 
+     * with their `viewTransitionName` property.
+     * 
+     * @default false
+     */
+    viewTransitions?: boolean;
 }
 
+/**
+ * Defines the options of the library's focus management.
+ */
+export type FocusManagementOptions = {
+    /**
+     * CSS selector, or list of CSS selectors tried in order, of the element that receives focus after navigation 
+     * changes which routes match.  Elements rendered by the new routes are preferred over the ones that were already in 
+     * the document.  Elements that are not focusable are given `tabindex="-1"`.
+     * 
+     * @default ['[data-route-focus]', 'h1']
+     */
+    target?: string | string[];
+    /**
+     * Whether to announce the new page's title (or the text of the focused element, if the document has no title) 
+     * through a visually hidden live region.
+     * 
+     * @default true
+     */
+    announce?: boolean;
+};
+
 /**
  * Extended initialization options that include all routing options.
  * 
  * _Meaningful only for library extension packages that need additional control over routing options._
  */
-export type ExtendedInitOptions = ExtendedRoutingOptions & Pick<InitOptions, 'trace' | 'logger'>;
+export type ExtendedInitOptions = ExtendedRoutingOptions & Pick<InitOptions, 'trace' | 'logger' | 'scroll' | 'focus' | 'titleTemplate' | 'viewTransitions'>;
 
 /**
  * Defines an abstraction over the browser's History API that provides consistent navigation
@@ -479,6 +1117,17 @@ export interface HistoryApi extends History {
      * Should be called when the implementation is no longer needed to prevent memory leaks.
      */
     dispose(): void;
+
+    /**
+     * Subscribes to the notification that implementations raise every time navigation updates the URL and state, 
+     * including history traversals.
+     * 
+     * This is optional.  Location objects rely on it to raise the `afterNavigate` event for navigation they did not 
+     * start themselves.
+     * @param callback The callback to invoke after the URL and state have been updated.
+     * @returns A function that removes the subscription.
+     */
+    onNavigated?(callback: (type: NavigationKind) => void): () => void;
 }
 
 /**
@@ -489,6 +1138,6 @@ export interface FullModeHistoryApi extends HistoryApi {
     /**
      * Subscribe to navigation events.
      */
-    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void): () => void;
+    on(event: 'beforeNavigate', callback: (event: BeforeNavigateEvent) => void | PromiseLike<void>): () => void;
     on(event: 'navigationCancelled', callback: (event: NavigationCancelledEvent) => void): () => void;
 }